@@ -1,97 +1,107 @@
 import Fastify from "fastify";
-import { fastifyLimiter } from "zenin-limiter";
+import { fastifyRateLimit } from "zenin-limiter";
 
 const fastify = Fastify({ logger: true });
 
-// Basic IP-based rate limiting
-fastify.addHook(
-  "onRequest",
-  fastifyLimiter({
+const start = async () => {
+  // Basic IP-based rate limiting for every route below
+  await fastify.register(fastifyRateLimit, {
     keyType: "ip",
     limit: 100,
     windowInSeconds: 60,
-  })
-);
-
-// Header-based rate limiting for API keys
-fastify.addHook("onRequest", async (request, reply) => {
-  if (request.url.startsWith("/api")) {
-    return fastifyLimiter({
-      keyType: "header:X-API-KEY",
-      limit: 1000,
-      windowInSeconds: 3600, // 1 hour
-      strategy: "sliding",
-    })(request, reply);
-  }
-});
+  });
 
-// Custom key generator for user-based limiting
-fastify.addHook("onRequest", async (request, reply) => {
-  if (request.url.startsWith("/user")) {
-    return fastifyLimiter({
-      customKeyGenerator: (req) => req.headers["x-user-id"] || "anonymous",
-      limit: 50,
-      windowInSeconds: 300, // 5 minutes
-      strategy: "tokenBucket",
-    })(request, reply);
-  }
-});
+  fastify.get("/", async (request, reply) => {
+    return { message: "Hello World!" };
+  });
 
-// Advanced configuration with hooks and debugging
-fastify.addHook("onRequest", async (request, reply) => {
-  if (request.url.startsWith("/admin")) {
-    return fastifyLimiter({
-      keyType: "ip",
-      limit: 10,
-      windowInSeconds: 60,
-      strategy: "fixed",
-      debug: true,
-      onLimitReached: (key, req) => {
-        console.log(`Rate limit exceeded for ${key}`);
+  // Header-based rate limiting for API keys
+  fastify.get(
+    "/api/data",
+    {
+      config: {
+        rateLimit: {
+          keyType: "header:X-API-KEY",
+          limit: 1000,
+          windowInSeconds: 3600, // 1 hour
+          strategy: "sliding",
+        },
       },
-      onPass: (key, req) => {
-        console.log(`Request allowed for ${key}`);
-      },
-      limiterConfig: {
-        maxStoreSize: 10000,
-        enablePerKeyStats: true,
-      },
-    })(request, reply);
-  }
-});
+    },
+    async (request, reply) => {
+      return { data: "API response", remaining: request.rateLimit?.remaining };
+    }
+  );
 
-// Adaptive rate limiting based on user type
-fastify.addHook("onRequest", async (request, reply) => {
-  if (request.url.startsWith("/premium")) {
-    return fastifyLimiter({
-      keyType: "ip",
-      limit: (req) => (req.headers["x-user-type"] === "premium" ? 1000 : 100),
-      windowInSeconds: 60,
-    })(request, reply);
-  }
-});
-
-fastify.get("/", async (request, reply) => {
-  return { message: "Hello World!" };
-});
-
-fastify.get("/api/data", async (request, reply) => {
-  return { data: "API response" };
-});
+  // Custom key generator for user-based limiting
+  fastify.get(
+    "/user/profile",
+    {
+      config: {
+        rateLimit: {
+          customKeyGenerator: (req) => req.headers["x-user-id"] || "anonymous",
+          limit: 50,
+          windowInSeconds: 300, // 5 minutes
+          strategy: "tokenBucket",
+        },
+      },
+    },
+    async (request, reply) => {
+      return { user: "Profile data" };
+    }
+  );
 
-fastify.get("/user/profile", async (request, reply) => {
-  return { user: "Profile data" };
-});
+  // Advanced configuration with hooks and debugging
+  fastify.get(
+    "/admin/dashboard",
+    {
+      config: {
+        rateLimit: {
+          limit: 10,
+          debug: true,
+          onLimitReached: (key, req) => {
+            console.log(`Rate limit exceeded for ${key}`);
+          },
+          onPass: (key, req) => {
+            console.log(`Request allowed for ${key}`);
+          },
+          limiterConfig: {
+            maxStoreSize: 10000,
+            enablePerKeyStats: true,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      return { admin: "Dashboard data" };
+    }
+  );
 
-fastify.get("/admin/dashboard", async (request, reply) => {
-  return { admin: "Dashboard data" };
-});
+  // Adaptive rate limiting based on user type
+  fastify.get(
+    "/premium/content",
+    {
+      config: {
+        rateLimit: {
+          limit: (req) =>
+            req.headers["x-user-type"] === "premium" ? 1000 : 100,
+        },
+      },
+    },
+    async (request, reply) => {
+      return { premium: "Premium content" };
+    }
+  );
 
-fastify.get("/premium/content", async (request, reply) => {
-  return { premium: "Premium content" };
-});
+  // Not limited
+  fastify.get(
+    "/health",
+    { config: { rateLimit: false } },
+    async (request, reply) => {
+      return { status: "ok" };
+    }
+  );
 
-const start = async () => {
   try {
     await fastify.listen({ port: 3000 });
   } catch (err) {
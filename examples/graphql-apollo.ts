@@ -0,0 +1,65 @@
+import { ApolloServer } from "@apollo/server";
+import { startStandaloneServer } from "@apollo/server/standalone";
+import {
+  apolloRateLimitPlugin,
+  rateLimitDirectiveTypeDefs,
+} from "zenin-limiter/graphql";
+
+const typeDefs = `
+  ${rateLimitDirectiveTypeDefs}
+
+  type Post {
+    id: ID!
+    title: String
+  }
+
+  type Query {
+    posts(first: Int): [Post]
+    # Expensive: costs 5, and at most 10 searches per minute per client
+    search(term: String!): [Post] @rateLimit(limit: 10, windowInSeconds: 60, cost: 5)
+  }
+
+  type Mutation {
+    # At most 5 login attempts per 15 minutes per client
+    login(password: String!): Boolean @rateLimit(limit: 5, windowInSeconds: 900)
+  }
+`;
+
+const posts = [
+  { id: "1", title: "Hello" },
+  { id: "2", title: "World" },
+];
+
+const resolvers = {
+  Query: {
+    posts: (_: unknown, { first }: { first?: number }) =>
+      posts.slice(0, first ?? posts.length),
+    search: (_: unknown, { term }: { term: string }) =>
+      posts.filter((post) => post.title.includes(term)),
+  },
+  Mutation: {
+    login: (_: unknown, { password }: { password: string }) =>
+      password === "secret",
+  },
+};
+
+const server = new ApolloServer({
+  typeDefs,
+  resolvers,
+  plugins: [
+    apolloRateLimitPlugin({
+      keyType: "ip",
+      limit: 500, // Cost units per operation name and minute
+      windowInSeconds: 60,
+      // Lists cost their page size times the cost of each item
+      complexity: ({ args, childCost, cost = 1 }) =>
+        cost + childCost * ((args.first as number) ?? 1),
+    }),
+  ],
+});
+
+startStandaloneServer(server, {
+  listen: { port: 4000 },
+  // Rate limit keys are read from the HTTP request in the context
+  context: async ({ req }) => ({ req }),
+}).then(({ url }) => console.log(`GraphQL server ready at ${url}`));
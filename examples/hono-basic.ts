@@ -0,0 +1,82 @@
+import { Hono } from "hono";
+import {
+  fetchLimiter,
+  FetchLimiterOptions,
+  withRateLimit,
+} from "zenin-limiter/fetch";
+import { honoLimiter } from "zenin-limiter/hono";
+
+const app = new Hono();
+
+// Client addresses come from a header only a trusted proxy may set;
+// Cloudflare overwrites any cf-connecting-ip the client sent
+const fromCloudflare: FetchLimiterOptions = {
+  getIp: (request) => request.headers.get("cf-connecting-ip") ?? undefined,
+};
+
+// Basic IP-based rate limiting
+app.use(
+  honoLimiter(
+    {
+      keyType: "ip",
+      limit: 100,
+      windowInSeconds: 60,
+    },
+    fromCloudflare
+  )
+);
+
+// Header-based rate limiting for API keys
+app.use(
+  "/api/*",
+  honoLimiter({
+    keyType: "header:X-API-KEY",
+    limit: 1000,
+    windowInSeconds: 3600, // 1 hour
+    strategy: "sliding",
+  })
+);
+
+// Only failed logins count, with a custom 429 body
+app.use(
+  "/login",
+  honoLimiter(
+    {
+      keyType: "ip",
+      limit: 5,
+      windowInSeconds: 900, // 15 minutes
+      skipSuccessfulRequests: true,
+    },
+    {
+      ...fromCloudflare,
+      body: (decision) => ({
+        error: "Too many failed logins",
+        retryAfterSeconds: Math.ceil(decision.retryAfterMs / 1000),
+      }),
+    }
+  )
+);
+
+app.get("/", (c) => c.json({ message: "Hello World!" }));
+app.get("/api/data", (c) => c.json({ data: "API response" }));
+app.post("/login", (c) => c.json({ ok: true }));
+
+// Without a framework: a plain fetch handler, e.g. a Cloudflare Worker
+const limit = fetchLimiter({ keyType: "ip", limit: 10 }, fromCloudflare);
+
+export const worker = {
+  async fetch(request: Request): Promise<Response> {
+    const rejection = await limit(request);
+    return rejection ?? new Response("Hello from the edge!");
+  },
+};
+
+// Or a Next.js route handler, with headers added to the response
+export const GET = withRateLimit(
+  async () => Response.json({ data: "Route handler response" }),
+  { keyType: "ip", limit: 50, windowInSeconds: 60 },
+  // Vercel sets x-real-ip to the client address
+  { getIp: (request) => request.headers.get("x-real-ip") ?? undefined }
+);
+
+export default app;
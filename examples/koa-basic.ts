@@ -0,0 +1,38 @@
+import Koa from "koa";
+import { koaLimiter } from "zenin-limiter/koa";
+
+const app = new Koa();
+
+// Basic IP-based rate limiting
+app.use(
+  koaLimiter({
+    keyType: "ip",
+    limit: 100,
+    windowInSeconds: 60,
+  })
+);
+
+// Only failed logins count, with a custom 429 body
+const loginLimiter = koaLimiter(
+  {
+    keyType: "ip",
+    limit: 5,
+    windowInSeconds: 900, // 15 minutes
+    skipSuccessfulRequests: true,
+  },
+  {
+    body: (ctx, decision) => ({
+      error: "Too many failed logins",
+      retryAfterSeconds: Math.ceil(decision.retryAfterMs / 1000),
+    }),
+  }
+);
+app.use((ctx, next) =>
+  ctx.path === "/login" ? loginLimiter(ctx, next) : next()
+);
+
+app.use(async (ctx) => {
+  ctx.body = { message: "Hello World!" };
+});
+
+app.listen(3000);
@@ -4,10 +4,19 @@
 import {
   Injectable,
   CanActivate,
+  Controller,
   ExecutionContext,
+  Get,
   Module,
 } from "@nestjs/common";
-import { RateLimiter, NestLimiterGuard } from "zenin-limiter";
+import { APP_GUARD } from "@nestjs/core";
+import { RateLimiter } from "zenin-limiter";
+import {
+  RateLimit,
+  RateLimitModule,
+  NestLimiterGuard,
+  SkipRateLimit,
+} from "zenin-limiter/nest";
 
 // Example 1: Using RateLimiter directly in a service
 @Injectable()
@@ -44,11 +53,40 @@ export class CustomRateLimitGuard implements CanActivate {
   }
 }
 
-// Example 3: Using the built-in NestLimiterGuard
+// Example 3: Using the built-in NestLimiterGuard with per-route limits
+@Controller("api")
+@RateLimit({ limit: 50 })
+export class ApiController {
+  @Get()
+  getData() {
+    return { message: "Hello World!" };
+  }
+
+  @Get("search")
+  @RateLimit({ limit: 10, strategy: "sliding" })
+  search() {
+    return { results: [] };
+  }
+
+  @Get("health")
+  @SkipRateLimit()
+  health() {
+    return { status: "ok" };
+  }
+}
+
 @Module({
+  imports: [
+    RateLimitModule.forRoot({
+      keyType: "ip",
+      limit: 100,
+      windowInSeconds: 60,
+    }),
+  ],
+  controllers: [ApiController],
   providers: [
     {
-      provide: "APP_GUARD",
+      provide: APP_GUARD,
       useClass: NestLimiterGuard,
     },
   ],
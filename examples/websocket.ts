@@ -0,0 +1,45 @@
+import { createServer } from "http";
+import { WebSocketServer } from "ws";
+import { Server } from "socket.io";
+import { socketIoLimiter, wsLimiter } from "zenin-limiter/websocket";
+
+// ws: at most 10 messages per second per connection, extra ones dropped
+const wss = new WebSocketServer({ port: 8080 });
+wsLimiter(wss, { limit: 10, windowInSeconds: 1 });
+
+// A second limit per user, closing abusive connections with 1008
+wsLimiter(wss, {
+  limit: 600,
+  windowInSeconds: 60,
+  keyBy: "user",
+  getUser: ({ req }) => req?.headers["x-user-id"] as string | undefined,
+  action: "close",
+  closeReason: "Too many messages",
+});
+
+wss.on("connection", (socket) => {
+  socket.on("message", (data) => socket.send(`echo: ${data}`));
+});
+
+// socket.io: each event name has its own budget per connection
+const httpServer = createServer();
+const io = new Server(httpServer);
+
+io.use(
+  socketIoLimiter({
+    limit: 5,
+    windowInSeconds: 10,
+    keyBy: "event",
+    // Uploads cost more than chat messages
+    cost: ({ event }) => (event === "upload" ? 5 : 1),
+    action: "error",
+    errorEvent: "rate_limited",
+  })
+);
+
+io.on("connection", (socket) => {
+  socket.on("chat", (text) => io.emit("chat", text));
+  socket.on("upload", (file) => socket.emit("uploaded", file?.name));
+});
+
+httpServer.listen(3000);
@@ -0,0 +1,128 @@
+import { AccessListEntry } from "../types";
+import { CidrTrie, looksLikeCidr } from "../utils/ip";
+
+function isGlob(entry: string): boolean {
+  return entry.includes("*") || entry.includes("?");
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * A set of keys and clients, as used by the `allowlist` and `denylist`
+ * options. Entries can be:
+ * - IPv4/IPv6 addresses and CIDR ranges, matched against the client IP
+ *   (or the key, when it is an IP) through a prefix trie
+ * - glob patterns (`*`, `?`) and exact strings, matched against the key;
+ *   strings are only ranges when they start with an address, so paths such
+ *   as `/health` or `/admin/*` are keys
+ * - predicates `(key, req) => boolean | Promise<boolean>`
+ *
+ * Lists can be changed at runtime; pass the same instance to several
+ * limiters to update all of them at once.
+ */
+export class AccessList {
+  private cidrs = new CidrTrie();
+  private exact = new Set<string>();
+  private globs = new Map<string, RegExp>();
+  private predicates: Array<Exclude<AccessListEntry, string>> = [];
+  private entries: AccessListEntry[] = [];
+
+  constructor(entries: AccessListEntry[] = []) {
+    this.add(...entries);
+  }
+
+  /**
+   * Adds entries to the list.
+   * @throws Error if an address with a prefix (`10.0.0.0/33`) is not a valid CIDR range
+   */
+  add(...entries: AccessListEntry[]): void {
+    for (const entry of entries) {
+      if (typeof entry === "function") {
+        this.predicates.push(entry);
+      } else if (typeof entry !== "string") {
+        throw new Error(`Invalid access list entry: ${entry}`);
+      } else if (looksLikeCidr(entry)) {
+        this.cidrs.add(entry);
+      } else if (isGlob(entry)) {
+        this.globs.set(entry, globToRegExp(entry));
+      } else {
+        this.exact.add(entry);
+      }
+      this.entries.push(entry);
+    }
+  }
+
+  /**
+   * Removes entries added earlier (predicates by reference).
+   */
+  remove(...entries: AccessListEntry[]): void {
+    for (const entry of entries) {
+      const index = this.entries.indexOf(entry);
+      if (index === -1) continue;
+      this.entries.splice(index, 1);
+      if (typeof entry === "function") {
+        this.predicates.splice(this.predicates.indexOf(entry), 1);
+      } else if (looksLikeCidr(entry)) {
+        this.cidrs.remove(entry);
+      } else if (!this.entries.includes(entry)) {
+        this.globs.delete(entry);
+        this.exact.delete(entry);
+      }
+    }
+  }
+
+  /**
+   * Replaces every entry of the list.
+   */
+  set(entries: AccessListEntry[]): void {
+    this.clear();
+    this.add(...entries);
+  }
+
+  clear(): void {
+    this.cidrs.clear();
+    this.exact.clear();
+    this.globs.clear();
+    this.predicates = [];
+    this.entries = [];
+  }
+
+  /**
+   * Current entries, in the order they were added.
+   */
+  list(): AccessListEntry[] {
+    return [...this.entries];
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * True if `key` or the client address `ip` is on the list. Addresses,
+   * exact keys and globs are checked before any predicate runs.
+   */
+  async matches(key: string, ip?: string, req?: any): Promise<boolean> {
+    if (this.exact.has(key)) return true;
+    if (this.cidrs.contains(key) || (ip && this.cidrs.contains(ip))) {
+      return true;
+    }
+    for (const pattern of this.globs.values()) {
+      if (pattern.test(key)) return true;
+    }
+    for (const predicate of this.predicates) {
+      if (await predicate(key, req)) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,239 @@
+import { LimiterConfig, RateLimitDecision } from "../types";
+import { RateLimiter } from "./RateLimiter";
+import { createKeyGenerator } from "../utils/keyGenerator";
+import { createKeyedLock } from "../utils/storeUpdate";
+
+/**
+ * One level of a composite limit, e.g. per user, per organisation or global.
+ * Keys are extracted with the usual `keyType` / `customKeyGenerator` options.
+ */
+export type LimitDimension = Partial<LimiterConfig> & {
+  name: string;
+};
+
+export interface CompositeLimiterConfig
+  extends Pick<
+    LimiterConfig,
+    "skip" | "skipSuccessfulRequests" | "skipFailedRequests" | "shouldCount"
+  > {
+  /** Dimensions checked in order; every one must allow a request. */
+  dimensions: LimitDimension[];
+
+  /**
+   * Called with the dimension that rejected a request.
+   */
+  onLimitReached?: (dimension: string, key: string, req?: any) => void;
+  onPass?: (req?: any) => void;
+  onError?: (error: Error) => void;
+
+  /**
+   * Rate limit headers the middleware adapters send, as in `LimiterConfig`.
+   */
+  headers?: LimiterConfig["headers"];
+
+  // skip, skipSuccessfulRequests, skipFailedRequests and shouldCount apply to
+  // every dimension at once; the dimensions' own settings are ignored
+}
+
+/**
+ * A decision of the dimension that decided the request: the one that rejected
+ * it, or the one with the least left when it was allowed.
+ */
+export type CompositeDecision = RateLimitDecision & {
+  dimension: string;
+};
+
+type Charge = { key: string; units: number };
+
+type Dimension = {
+  name: string;
+  config: LimitDimension;
+  limiter: RateLimiter;
+  keyFn: (req: any) => string;
+};
+
+function toCharge(decision: RateLimitDecision): Charge {
+  return { key: decision.key, units: decision.consumed };
+}
+
+/**
+ * Counts each request against several key dimensions at once, e.g. 100/min
+ * per user, 2,000/min per organisation and 50,000/min globally. A request is
+ * counted in every dimension only if all of them allow it.
+ *
+ * Requests sharing a dimension key are serialized within this process;
+ * limiters in other processes sharing a store may interleave between the
+ * check and the count. If a dimension then rejects, the dimensions already
+ * counted are refunded.
+ */
+export class CompositeLimiter {
+  readonly config: CompositeLimiterConfig;
+  private dimensions: Dimension[];
+  private acquireLock = createKeyedLock();
+  // What each allowed request counted per dimension, so it can be refunded
+  private charges = new WeakMap<object, Charge[]>();
+
+  constructor(config: CompositeLimiterConfig) {
+    if (!Array.isArray(config.dimensions) || config.dimensions.length === 0) {
+      throw new Error("CompositeLimiter requires at least one dimension");
+    }
+    const names = new Set<string>();
+    for (const dimension of config.dimensions) {
+      if (!dimension.name || names.has(dimension.name)) {
+        throw new Error(
+          `Dimension names must be unique and non-empty: "${dimension.name}"`
+        );
+      }
+      if (dimension.throttle) {
+        throw new Error(
+          `Dimension "${dimension.name}" cannot use throttle mode`
+        );
+      }
+      names.add(dimension.name);
+    }
+    this.config = config;
+    this.dimensions = config.dimensions.map((dimension) => ({
+      name: dimension.name,
+      config: dimension,
+      limiter: new RateLimiter(dimension),
+      keyFn: createKeyGenerator({
+        keyType: dimension.customKeyGenerator ? "custom" : dimension.keyType,
+        headerName: dimension.headerName,
+        customKeyGenerator: dimension.customKeyGenerator,
+        trustProxy: dimension.trustProxy,
+        ipv6PrefixLength: dimension.ipv6PrefixLength,
+      }),
+    }));
+  }
+
+  /**
+   * Decides whether `req` may proceed in every dimension and counts it in all
+   * of them if so. A rejected request is counted nowhere.
+   */
+  async check(req: any): Promise<CompositeDecision> {
+    const keys = this.dimensions.map((dimension) => dimension.keyFn(req));
+    const unlocks: Array<() => void> = [];
+    try {
+      // Always locked in dimension order, so two requests cannot deadlock
+      for (let i = 0; i < this.dimensions.length; i++) {
+        unlocks.push(
+          await this.acquireLock(`${this.dimensions[i].name}:${keys[i]}`)
+        );
+      }
+
+      for (let i = 0; i < this.dimensions.length; i++) {
+        const { name, limiter, config } = this.dimensions[i];
+        const decision = await limiter.peek(keys[i], req);
+        if (!decision.allowed && !config.dryRun && !config.silent) {
+          this.callHook("onLimitReached", name, keys[i], req);
+          return { ...decision, dimension: name };
+        }
+      }
+
+      const decisions: CompositeDecision[] = [];
+      for (let i = 0; i < this.dimensions.length; i++) {
+        const { name, limiter } = this.dimensions[i];
+        const decision = await limiter.check(keys[i], req);
+        decisions.push({ ...decision, dimension: name });
+        if (!decision.allowed) {
+          // Only another process racing on a shared store gets here; the
+          // rejected request must not keep what earlier dimensions counted
+          await this.refundCharges(decisions.slice(0, i).map(toCharge), req);
+          this.callHook("onLimitReached", name, keys[i], req);
+          return decisions[i];
+        }
+      }
+      if (req && typeof req === "object") {
+        this.charges.set(req, decisions.map(toCharge));
+      }
+      this.callHook("onPass", req);
+      return decisions.reduce((binding, decision) =>
+        decision.remaining < binding.remaining ? decision : binding
+      );
+    } catch (error) {
+      this.callHook("onError", error as Error);
+      throw error;
+    } finally {
+      for (const unlock of unlocks.reverse()) unlock();
+    }
+  }
+
+  /**
+   * Hands back what `check` acquired for `req` in dimensions that hold
+   * capacity while a request is in flight ('concurrency').
+   */
+  async release(req: any): Promise<void> {
+    await Promise.all(
+      this.dimensions
+        .filter((dimension) => dimension.limiter.needsRelease)
+        .map((dimension) =>
+          dimension.limiter.release(dimension.keyFn(req), req)
+        )
+    );
+  }
+
+  /**
+   * Gives back what `check` counted for `req` in every dimension, e.g. for a
+   * request whose outcome should not count. Refunding twice does nothing.
+   */
+  async refund(req: any): Promise<void> {
+    const charges = this.charges.get(req);
+    if (!charges) return;
+    this.charges.delete(req);
+    await this.refundCharges(charges, req);
+  }
+
+  /** Gives back `charges`, which start at the first dimension. */
+  private async refundCharges(charges: Charge[], req: any): Promise<void> {
+    await Promise.all(
+      charges.map(({ key, units }, i) =>
+        this.dimensions[i].limiter.refund(key, units, req)
+      )
+    );
+  }
+
+  /**
+   * True if allowed requests must be handed back with `release` once they
+   * complete.
+   */
+  get needsRelease(): boolean {
+    return this.dimensions.some((dimension) => dimension.limiter.needsRelease);
+  }
+
+  /**
+   * Configuration of the dimension called `name`.
+   */
+  getDimensionConfig(name: string): LimitDimension | undefined {
+    return this.dimensions.find((dimension) => dimension.name === name)?.config;
+  }
+
+  /**
+   * The limiter behind dimension `name`, e.g. to reset one of its keys.
+   */
+  getLimiter(name: string): RateLimiter | undefined {
+    return this.dimensions.find((dimension) => dimension.name === name)
+      ?.limiter;
+  }
+
+  /**
+   * Shuts down every dimension's limiter.
+   */
+  async close(): Promise<void> {
+    await Promise.all(
+      this.dimensions.map((dimension) => dimension.limiter.close())
+    );
+  }
+
+  private callHook(
+    hookName: "onLimitReached" | "onPass" | "onError",
+    ...args: any[]
+  ): void {
+    const hook = this.config[hookName];
+    if (!hook) return;
+    try {
+      (hook as Function)(...args);
+    } catch (error) {
+      this.config.onError?.(error as Error);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { PenaltyConfig, RateLimitStore } from "../types";
+import { updateStoreValue } from "../utils/storeUpdate";
+
+type PenaltyData = {
+  /** Rejections counted in the current period. */
+  rejections: number;
+  /** Start of the current counting period. */
+  since: number;
+  /** Number of bans so far; picks the next ban duration. */
+  level: number;
+  /** End of the active ban, if any. */
+  bannedUntil?: number;
+};
+
+const KEY_PREFIX = "penalty:";
+
+/**
+ * A ban that has just started.
+ */
+export type Ban = {
+  durationMs: number;
+  until: number;
+  level: number;
+};
+
+/**
+ * Tracks repeat offenders in the limiter's store: keys that are rejected
+ * `rejections` times within `periodInSeconds` are banned outright, for
+ * longer each time. Offences are forgotten after `forgetAfterSeconds`
+ * without rejections or bans.
+ */
+export class PenaltyBox {
+  private rejections: number;
+  private periodMs: number;
+  private banDurationsMs: number[];
+  private forgetAfterMs: number;
+
+  constructor(private store: RateLimitStore, config: PenaltyConfig = {}) {
+    this.rejections = config.rejections ?? 5;
+    this.periodMs = (config.periodInSeconds ?? 60) * 1000;
+    this.banDurationsMs = (config.banDurationsInSeconds ?? [60, 600, 3600]).map(
+      (seconds) => seconds * 1000
+    );
+    this.forgetAfterMs = (config.forgetAfterSeconds ?? 86400) * 1000;
+  }
+
+  /**
+   * End of the active ban of `key`, or `undefined` if it is not banned. A ban
+   * that has run out is cleared, and reported once through `lifted`.
+   */
+  async getBan(key: string, lifted?: () => void): Promise<number | undefined> {
+    const entry = await this.store.get<PenaltyData>(KEY_PREFIX + key);
+    if (entry?.bannedUntil === undefined) return undefined;
+    if (entry.bannedUntil > Date.now()) return entry.bannedUntil;
+    const cleared = await updateStoreValue<PenaltyData, boolean>(
+      this.store,
+      KEY_PREFIX + key,
+      (current) => {
+        if (current?.bannedUntil === undefined) return { result: false };
+        const now = Date.now();
+        if (current.bannedUntil > now) return { result: false };
+        const { bannedUntil, ...rest } = current;
+        return {
+          result: true,
+          value: rest,
+          ttlMs: this.ttl(rest, now),
+        };
+      }
+    );
+    // Only the caller whose write cleared the ban reports it
+    if (cleared) lifted?.();
+    return undefined;
+  }
+
+  /**
+   * Counts a rejection of `key` and bans it if that was one too many.
+   * @returns The ban that started, if any
+   */
+  recordRejection(key: string): Promise<Ban | undefined> {
+    return updateStoreValue<PenaltyData, Ban | undefined>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) => {
+        const now = Date.now();
+        let data: PenaltyData = entry
+          ? { ...entry }
+          : { rejections: 0, since: now, level: 0 };
+        if (data.since + this.periodMs <= now) {
+          data = { ...data, rejections: 0, since: now };
+        }
+        data.rejections++;
+        if (data.rejections < this.rejections) {
+          return { result: undefined, value: data, ttlMs: this.ttl(data, now) };
+        }
+        const durationMs =
+          this.banDurationsMs[
+            Math.min(data.level, this.banDurationsMs.length - 1)
+          ];
+        const ban = {
+          durationMs,
+          until: now + durationMs,
+          level: data.level + 1,
+        };
+        data = {
+          rejections: 0,
+          since: now,
+          level: ban.level,
+          bannedUntil: ban.until,
+        };
+        return { result: ban, value: data, ttlMs: this.ttl(data, now) };
+      }
+    );
+  }
+
+  /**
+   * Bans `key` for `durationMs`, replacing any active ban. Does not change
+   * the escalation level.
+   */
+  ban(key: string, durationMs: number): Promise<Ban> {
+    return updateStoreValue<PenaltyData, Ban>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) => {
+        const now = Date.now();
+        const data: PenaltyData = {
+          ...(entry || { rejections: 0, since: now, level: 0 }),
+          bannedUntil: now + durationMs,
+        };
+        return {
+          result: { durationMs, until: data.bannedUntil!, level: data.level },
+          value: data,
+          ttlMs: this.ttl(data, now),
+        };
+      }
+    );
+  }
+
+  /**
+   * Lifts the ban of `key` and forgets its offences.
+   * @returns true if the key was banned
+   */
+  async unban(key: string): Promise<boolean> {
+    const entry = await this.store.get<PenaltyData>(KEY_PREFIX + key);
+    await this.store.delete(KEY_PREFIX + key);
+    return entry?.bannedUntil !== undefined && entry.bannedUntil > Date.now();
+  }
+
+  /**
+   * Keeps a record until its ban and counting period are over and nothing
+   * happened for `forgetAfterMs`.
+   */
+  private ttl(data: PenaltyData, now: number): number {
+    const busyUntil = Math.max(
+      data.bannedUntil ?? 0,
+      data.since + this.periodMs
+    );
+    return busyUntil - now + this.forgetAfterMs;
+  }
+}
@@ -1,10 +1,31 @@
-import { LimiterConfig } from "../types";
+import {
+  ConsumeResult,
+  LimiterConfig,
+  RateLimitDecision,
+  RateLimiterSnapshot,
+  RateLimitStore,
+} from "../types";
 import { RateLimitStrategy } from "../types";
 import { FixedWindowStrategy } from "../strategies/memoryStore";
 import { SlidingWindowStrategy } from "../strategies/slidingWindow";
 import { TokenBucketStrategy } from "../strategies/tokenBucket";
+import { SlidingCounterStrategy } from "../strategies/slidingCounter";
+import { GcraStrategy } from "../strategies/gcra";
+import { ConcurrencyStrategy } from "../strategies/concurrency";
+import { MultiRuleStrategy } from "../strategies/rules";
+import { Throttler } from "./Throttler";
+import { PenaltyBox } from "./PenaltyBox";
+import { AccessList } from "./AccessList";
+import { createClientIpResolver } from "../utils/clientIp";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
 import { applyDefaults } from "../utils/configDefaults";
 import { throwIfInvalid } from "../utils/configValidator";
+import {
+  assertValidSnapshot,
+  readSnapshotFile,
+  SNAPSHOT_VERSION,
+  writeSnapshotFile,
+} from "../utils/snapshot";
 
 export interface RateLimiterStats {
   totalRequests: number;
@@ -14,22 +35,121 @@ export interface RateLimiterStats {
   memoryUsage?: number;
 }
 
+function toAccessList(list?: LimiterConfig["allowlist"]): AccessList {
+  return list instanceof AccessList ? list : new AccessList(list);
+}
+
+/** Snapshot saves of every persisted limiter, by the signal that triggers them. */
+const shutdownSaves = new Map<NodeJS.Signals, Set<() => Promise<void>>>();
+const signalsInProgress = new Set<NodeJS.Signals>();
+
+/**
+ * The one listener per signal for all limiters: waits for every save, then
+ * restores the default behaviour if nobody else handles the signal. A
+ * listener per limiter would re-raise the signal after the first save,
+ * killing the process while the others are still writing.
+ */
+async function handleShutdownSignal(signal: NodeJS.Signals): Promise<void> {
+  const saves = shutdownSaves.get(signal);
+  if (!saves || signalsInProgress.has(signal)) return;
+  signalsInProgress.add(signal);
+  await Promise.allSettled([...saves].map((save) => save()));
+  signalsInProgress.delete(signal);
+  shutdownSaves.delete(signal);
+  process.removeListener(signal, handleShutdownSignal);
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+function onShutdownSignal(
+  signal: NodeJS.Signals,
+  save: () => Promise<void>
+): void {
+  let saves = shutdownSaves.get(signal);
+  if (!saves) {
+    saves = new Set();
+    shutdownSaves.set(signal, saves);
+    process.on(signal, handleShutdownSignal);
+  }
+  saves.add(save);
+}
+
+function offShutdownSignal(
+  signal: NodeJS.Signals,
+  save: () => Promise<void>
+): void {
+  const saves = shutdownSaves.get(signal);
+  if (!saves?.delete(save) || saves.size > 0) return;
+  // A signal being handled removes the listener once its saves are done
+  if (signalsInProgress.has(signal)) return;
+  shutdownSaves.delete(signal);
+  process.removeListener(signal, handleShutdownSignal);
+}
+
 export class RateLimiter {
   private strategy: RateLimitStrategy;
+  private throttler?: Throttler;
+  private penalties: PenaltyBox;
+  /** Keys and clients that are never limited; may be changed at runtime. */
+  readonly allowlist: AccessList;
+  /** Keys and clients that are always rejected; may be changed at runtime. */
+  readonly denylist: AccessList;
+  private resolveIp: (req: any) => string | undefined;
+  private enforcesBans: boolean;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
   private config: LimiterConfig;
   private stats = {
     totalRequests: 0,
     hits: 0,
     rejections: 0,
   };
+  private ready: Promise<void> = Promise.resolve();
+  private signalHandlers: Array<[NodeJS.Signals, () => Promise<void>]> = [];
 
   constructor(config: Partial<LimiterConfig>, strategy?: RateLimitStrategy) {
     this.config = applyDefaults(config);
     throwIfInvalid(this.config);
-    this.strategy = strategy || this.createStrategy(this.config);
+    // Resolved once so the strategy's counters and the ban state share a store
+    const { store, owned } = resolveStore(this.config);
+    this.store = store;
+    this.ownsStore = owned;
+    this.strategy =
+      strategy || this.createStrategy({ ...this.config, store: this.store });
+    this.penalties = new PenaltyBox(this.store, this.config.penalty);
+    this.enforcesBans =
+      this.config.enforceBans !== false || !!this.config.penalty;
+    this.allowlist = toAccessList(this.config.allowlist);
+    this.denylist = toAccessList(this.config.denylist);
+    this.resolveIp = createClientIpResolver(this.config);
+    if (this.config.throttle) {
+      this.throttler = new Throttler(this.config.throttle);
+    }
+    if (this.config.persistence) {
+      this.ready = this.loadPersistedState();
+      this.registerSignalHandlers();
+    }
+  }
+
+  /**
+   * Restores a limiter from a snapshot taken with `snapshot()`.
+   * Entries that expired since the snapshot was taken are discarded.
+   */
+  static async restore(
+    config: Partial<LimiterConfig>,
+    snapshot: RateLimiterSnapshot
+  ): Promise<RateLimiter> {
+    const limiter = new RateLimiter(config);
+    await limiter.ready;
+    await limiter.loadSnapshot(snapshot);
+    return limiter;
   }
 
   private createStrategy(config: LimiterConfig): RateLimitStrategy {
+    if (config.rules) {
+      return new MultiRuleStrategy(config);
+    }
     const strategyType = config.strategy || "fixed";
 
     switch (strategyType) {
@@ -37,6 +157,12 @@ export class RateLimiter {
         return new SlidingWindowStrategy(config);
       case "tokenBucket":
         return new TokenBucketStrategy(config);
+      case "slidingCounter":
+        return new SlidingCounterStrategy(config);
+      case "gcra":
+        return new GcraStrategy(config);
+      case "concurrency":
+        return new ConcurrencyStrategy(config);
       case "fixed":
       default:
         return new FixedWindowStrategy(config);
@@ -54,7 +180,7 @@ export class RateLimiter {
   private callHook(
     hookName: keyof Pick<
       LimiterConfig,
-      "onPass" | "onLimitReached" | "onReset" | "onError"
+      "onPass" | "onLimitReached" | "onReset" | "onError" | "onBan" | "onUnban"
     >,
     ...args: any[]
   ): void {
@@ -70,18 +196,148 @@ export class RateLimiter {
     }
   }
 
+  private getStrategyName(): string {
+    if (this.config.rules) return "rules";
+    return this.config.strategy || "fixed";
+  }
+
+  private describeRule(index: number, req?: any): RateLimitDecision["rule"] {
+    const rule = this.config.rules![index];
+    return {
+      index,
+      limit: typeof rule.limit === "function" ? rule.limit(req) : rule.limit,
+      windowInSeconds: rule.windowInSeconds,
+      strategy: rule.strategy || "fixed",
+    };
+  }
+
+  private async loadPersistedState(): Promise<void> {
+    try {
+      const snapshot = await readSnapshotFile(this.config.persistence!.path);
+      if (snapshot) {
+        const restored = await this.loadSnapshot(snapshot);
+        this.logDebug(`Restored ${restored} keys from snapshot`);
+      }
+    } catch (error) {
+      this.callHook("onError", error as Error);
+      this.logDebug("Failed to load snapshot", error);
+    }
+  }
+
+  private registerSignalHandlers(): void {
+    const signals = this.config.persistence!.signals || ["SIGTERM"];
+    for (const signal of signals) {
+      const save = () =>
+        this.saveSnapshot().catch((error) =>
+          this.callHook("onError", error as Error)
+        );
+      onShutdownSignal(signal, save);
+      this.signalHandlers.push([signal, save]);
+    }
+  }
+
   private logDebug(message: string, data?: any) {
     if (this.config.debug) {
       console.log(`[RateLimiter] ${message}`, data || "");
     }
   }
 
-  async isAllowed(key: string, req?: any): Promise<boolean> {
+  private getCost(req?: any): number {
+    const cost = this.config.cost;
+    if (typeof cost === "function") {
+      return cost(req);
+    }
+    return cost ?? 1;
+  }
+
+  /**
+   * Decides whether a request for `key` may proceed, charging it the
+   * configured `cost`, and reports the limit, what remains and when to retry,
+   * all from the same atomic step. In throttle mode this waits for the key's
+   * release slot; `signal` abandons the wait (for example when the client
+   * disconnects), in which case the request is not allowed and no hook is
+   * called.
+   */
+  async check(
+    key: string,
+    req?: any,
+    signal?: AbortSignal
+  ): Promise<RateLimitDecision> {
+    return this.decide(key, req, () => this.getCost(req), signal);
+  }
+
+  /**
+   * Same decision as `check`, reduced to whether the request may proceed.
+   */
+  async isAllowed(
+    key: string,
+    req?: any,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    return (await this.check(key, req, signal)).allowed;
+  }
+
+  /**
+   * Same decision as `check`, charging `cost` units instead of the
+   * configured cost, e.g. for a cost only known once the request is parsed.
+   */
+  async charge(
+    key: string,
+    cost: number,
+    req?: any
+  ): Promise<RateLimitDecision> {
+    return this.decide(key, req, () => cost);
+  }
+
+  /**
+   * Consumes `cost` units for `key` in one atomic step. If they do not all
+   * fit, nothing is consumed and the result is false.
+   */
+  async consume(key: string, cost: number, req?: any): Promise<boolean> {
+    return (await this.charge(key, cost, req)).allowed;
+  }
+
+  private async decide(
+    key: string,
+    req: any,
+    resolveCost: () => number,
+    signal?: AbortSignal
+  ): Promise<RateLimitDecision> {
+    await this.ready;
     this.stats.totalRequests++;
     this.logDebug(`Checking rate limit for key: ${key}`);
 
     try {
-      const allowed = await this.strategy.isAllowed(key, req);
+      const cost = resolveCost();
+      if (!Number.isInteger(cost) || cost < 0) {
+        throw new Error(
+          `Invalid cost: ${cost} (must be a non-negative integer)`
+        );
+      }
+      let decision =
+        (await this.checkAccessLists(key, req)) ??
+        (await this.checkBan(key, req));
+      if (!decision) {
+        const result = this.throttler
+          ? await this.consumeFromThrottler(key, cost, req, signal)
+          : await this.consumeFromStrategy(key, cost, req);
+        decision = this.toDecision(result, key, req);
+        // The throttler spaces requests out but keeps no count to refund
+        if (result.allowed && !this.throttler) decision.consumed = cost;
+        if (!result.allowed && this.config.penalty && !signal?.aborted) {
+          const ban = await this.penalties.recordRejection(key);
+          if (ban) {
+            this.logDebug(`Banned key: ${key} for ${ban.durationMs}ms`);
+            this.callHook("onBan", key, ban.durationMs, ban.level);
+          }
+        }
+      }
+      const allowed = decision.allowed;
+
+      if (signal?.aborted) {
+        this.logDebug(`Request abandoned while queued for key: ${key}`);
+        return { ...decision, allowed: false };
+      }
 
       if (allowed) {
         this.stats.hits++;
@@ -100,7 +356,7 @@ export class RateLimiter {
             allowed ? "allow" : "reject"
           } request for key: ${key}`
         );
-        return true; // Always allow in dry run mode
+        return { ...decision, allowed: true }; // Always allow in dry run mode
       }
 
       if (this.config.silent) {
@@ -109,10 +365,10 @@ export class RateLimiter {
             allowed ? "allowing" : "rejecting"
           } request for key: ${key}`
         );
-        return allowed; // Return actual result but don't block
+        return decision; // Return actual result but don't block
       }
 
-      return allowed;
+      return decision;
     } catch (error) {
       this.callHook("onError", error as Error);
       this.logDebug(`Error checking rate limit for key: ${key}`, error);
@@ -120,6 +376,192 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Reports whether a request for `key` would be allowed right now, without
+   * counting it or calling any hook. Not available in throttle mode.
+   */
+  async peek(key: string, req?: any): Promise<RateLimitDecision> {
+    if (this.throttler) {
+      throw new Error("peek is not supported in throttle mode");
+    }
+    if (!this.strategy.getState) {
+      throw new Error("Strategy does not support peek");
+    }
+    await this.ready;
+    const listed =
+      (await this.checkAccessLists(key, req)) ??
+      (await this.checkBan(key, req));
+    if (listed) return listed;
+    const cost = this.getCost(req);
+    const state = await this.strategy.getState(key, req);
+    return this.toDecision(
+      { ...state, allowed: state.remaining >= cost },
+      key,
+      req
+    );
+  }
+
+  /**
+   * The decision for a key or client on the denylist or allowlist, in that
+   * order, or `undefined` if it is on neither.
+   */
+  private async checkAccessLists(
+    key: string,
+    req?: any
+  ): Promise<RateLimitDecision | undefined> {
+    if (this.denylist.size === 0 && this.allowlist.size === 0) {
+      return undefined;
+    }
+    const ip = this.resolveIp(req);
+    let access: RateLimitDecision["access"];
+    if (await this.denylist.matches(key, ip, req)) {
+      access = "denylist";
+    } else if (await this.allowlist.matches(key, ip, req)) {
+      access = "allowlist";
+    } else {
+      return undefined;
+    }
+    const allowed = access === "allowlist";
+    const limit = this.getLimit(req);
+    const decision = this.toDecision(
+      {
+        allowed,
+        limit,
+        remaining: allowed ? limit : 0,
+        resetAt: Date.now(),
+        retryAfterMs: 0,
+      },
+      key,
+      req
+    );
+    return { ...decision, access };
+  }
+
+  /**
+   * The rejection for a banned key, or `undefined` if `key` is not banned.
+   */
+  private async checkBan(
+    key: string,
+    req?: any
+  ): Promise<RateLimitDecision | undefined> {
+    if (!this.enforcesBans) return undefined;
+    const bannedUntil = await this.penalties.getBan(key, () =>
+      this.callHook("onUnban", key)
+    );
+    if (bannedUntil === undefined) return undefined;
+    const decision = this.toDecision(
+      {
+        allowed: false,
+        remaining: 0,
+        resetAt: bannedUntil,
+        retryAfterMs: bannedUntil - Date.now(),
+      },
+      key,
+      req
+    );
+    return { ...decision, banned: true };
+  }
+
+  /**
+   * Blocks `key` outright for `durationMs`, whatever its counters say.
+   */
+  async ban(key: string, durationMs: number): Promise<void> {
+    if (typeof durationMs !== "number" || !(durationMs > 0)) {
+      throw new Error(`Invalid ban duration: ${durationMs}`);
+    }
+    this.enforcesBans = true;
+    const ban = await this.penalties.ban(key, durationMs);
+    this.logDebug(`Banned key: ${key} for ${durationMs}ms`);
+    this.callHook("onBan", key, durationMs, ban.level);
+  }
+
+  /**
+   * Lifts the ban of `key` and forgets its past offences.
+   */
+  async unban(key: string): Promise<void> {
+    if (await this.penalties.unban(key)) {
+      this.logDebug(`Unbanned key: ${key}`);
+      this.callHook("onUnban", key);
+    }
+  }
+
+  private toDecision(
+    result: ConsumeResult,
+    key: string,
+    req?: any
+  ): RateLimitDecision {
+    const rule =
+      result.rule !== undefined
+        ? this.describeRule(result.rule, req)
+        : undefined;
+    const decision: RateLimitDecision = {
+      allowed: result.allowed,
+      limit: result.limit ?? this.getLimit(req),
+      remaining: result.remaining,
+      resetAt: result.resetAt,
+      retryAfterMs:
+        result.allowed || result.exceedsLimit
+          ? 0
+          : Math.ceil(
+              result.retryAfterMs ?? Math.max(0, result.resetAt - Date.now())
+            ),
+      strategy: rule?.strategy ?? this.getStrategyName(),
+      key,
+      consumed: 0,
+    };
+    if (rule) decision.rule = rule;
+    if (result.leaseId) decision.leaseId = result.leaseId;
+    if (result.exceedsLimit) decision.exceedsLimit = true;
+    return decision;
+  }
+
+  private async consumeFromStrategy(
+    key: string,
+    cost: number,
+    req?: any
+  ): Promise<ConsumeResult> {
+    if (this.strategy.consume) {
+      const result = await this.strategy.consume(key, cost, req);
+      // Checked here, for every strategy: a cost above the whole limit is
+      // rejected like any other, but no amount of waiting makes it fit
+      const limit = result.limit ?? this.getLimit(req);
+      if (!result.allowed && cost > limit) {
+        return { ...result, exceedsLimit: true };
+      }
+      return result;
+    }
+    if (cost !== 1) {
+      throw new Error("Strategy does not support weighted costs");
+    }
+    // Custom strategy without consume(): report what getState can tell
+    const allowed = await this.strategy.isAllowed(key, req);
+    const state = await this.strategy.getState?.(key);
+    return {
+      allowed,
+      remaining: state?.remaining ?? 0,
+      resetAt: state?.resetAt ?? Date.now(),
+      limit: state?.limit,
+    };
+  }
+
+  private async consumeFromThrottler(
+    key: string,
+    cost: number,
+    req: any,
+    signal?: AbortSignal
+  ): Promise<ConsumeResult> {
+    const intervalMs =
+      (cost * (this.config.windowInSeconds || 60) * 1000) / this.getLimit(req);
+    const allowed = await this.throttler!.acquire(key, intervalMs, signal);
+    // In throttle mode "remaining" counts free places in the key's queue
+    const { remaining, nextReleaseAt } = this.throttler!.getState(key);
+    return {
+      allowed,
+      remaining,
+      resetAt: nextReleaseAt,
+    };
+  }
+
   async reset(key: string): Promise<void> {
     this.logDebug(`Resetting rate limit for key: ${key}`);
     if (this.strategy.reset) {
@@ -128,13 +570,137 @@ export class RateLimiter {
     }
   }
 
-  async getState(key: string): Promise<any> {
+  /**
+   * Hands back what a request that has completed acquired, for strategies
+   * that hold capacity while a request is in flight ('concurrency'). `lease`
+   * is the decision's `leaseId` or the request object passed to
+   * `isAllowed`/`check`, so only that request's lease ends.
+   */
+  async release(key: string, lease: string | object): Promise<void> {
+    if (!this.strategy.release) return;
+    if (!lease || (typeof lease !== "string" && typeof lease !== "object")) {
+      throw new Error(
+        "release requires the decision's leaseId or the request object"
+      );
+    }
+    try {
+      await this.strategy.release(key, lease);
+    } catch (error) {
+      this.callHook("onError", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * True if allowed requests must be handed back with `release` once they
+   * complete.
+   */
+  get needsRelease(): boolean {
+    return typeof this.strategy.release === "function";
+  }
+
+  /**
+   * Gives back `cost` units counted for `key`, e.g. for a request whose
+   * outcome should not count (see `decision.consumed`). Refunds never raise
+   * a key above its limit. Does nothing in throttle mode.
+   */
+  async refund(key: string, cost = 1, req?: any): Promise<void> {
+    if (this.throttler || cost === 0) return;
+    if (!Number.isInteger(cost) || cost < 0) {
+      throw new Error(`Invalid cost: ${cost} (must be a non-negative integer)`);
+    }
+    if (!this.strategy.refund) {
+      throw new Error("Strategy does not support refunds");
+    }
+    try {
+      await this.strategy.refund(key, cost, req);
+      this.logDebug(`Refunded ${cost} for key: ${key}`);
+    } catch (error) {
+      this.callHook("onError", error as Error);
+      throw error;
+    }
+  }
+
+  async getState(key: string, req?: any): Promise<any> {
     if (this.strategy.getState) {
-      return this.strategy.getState(key);
+      return this.strategy.getState(key, req);
     }
     return null;
   }
 
+  /**
+   * Number of requests waiting in throttle mode for `key`.
+   */
+  getQueueLength(key: string): number {
+    return this.throttler?.getQueueLength(key) ?? 0;
+  }
+
+  /**
+   * Serializes every live key of this limiter into a versioned snapshot.
+   * @throws Error if the strategy or store cannot list its state
+   */
+  async snapshot(): Promise<RateLimiterSnapshot> {
+    if (!this.strategy.snapshot) {
+      throw new Error("Strategy does not support snapshots");
+    }
+    await this.ready;
+    return {
+      version: SNAPSHOT_VERSION,
+      strategy: this.getStrategyName(),
+      createdAt: Date.now(),
+      entries: await this.strategy.snapshot(),
+    };
+  }
+
+  /**
+   * Loads a snapshot into this limiter, skipping entries that have expired.
+   * @returns Number of keys restored
+   * @throws Error if the snapshot is invalid or was taken with another strategy
+   */
+  async loadSnapshot(snapshot: RateLimiterSnapshot): Promise<number> {
+    if (!this.strategy.restore) {
+      throw new Error("Strategy does not support snapshots");
+    }
+    assertValidSnapshot(snapshot, this.getStrategyName());
+    return this.strategy.restore(snapshot.entries);
+  }
+
+  /**
+   * Writes a snapshot to `path`, defaulting to `persistence.path`.
+   */
+  async saveSnapshot(path = this.config.persistence?.path): Promise<void> {
+    if (!path) {
+      throw new Error("No snapshot path configured");
+    }
+    await writeSnapshotFile(path, await this.snapshot());
+    this.logDebug(`Saved snapshot to ${path}`);
+  }
+
+  /**
+   * Stops the background cleanup timer of this limiter's private store.
+   */
+  stopGC(): void {
+    this.strategy.stopGC?.();
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
+  }
+
+  /**
+   * Shuts the limiter down: saves a snapshot if persistence is configured,
+   * removes its signal handlers, turns away queued requests and stops
+   * background cleanup.
+   */
+  async close(): Promise<void> {
+    this.throttler?.close();
+    for (const [signal, save] of this.signalHandlers) {
+      offShutdownSignal(signal, save);
+    }
+    this.signalHandlers = [];
+    if (this.config.persistence) {
+      await this.saveSnapshot();
+    }
+    this.stopGC();
+  }
+
   getStats(): RateLimiterStats {
     return {
       ...this.stats,
@@ -0,0 +1,149 @@
+import { ThrottleConfig } from "../types";
+
+type Waiter = {
+  intervalMs: number;
+  resolve: (released: boolean) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+type KeyQueue = {
+  waiters: Waiter[];
+  /** Earliest time the next request may be released. */
+  nextReleaseAt: number;
+  timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Leaky bucket that delays instead of rejecting: requests for a key are
+ * released one emission interval apart, excess requests wait in a per-key
+ * FIFO queue, and only requests that would overflow the queue or wait past
+ * the deadline are turned away. Queues live in this process.
+ */
+export class Throttler {
+  private maxQueueLength: number;
+  private maxWaitMs: number;
+  private queues = new Map<string, KeyQueue>();
+
+  constructor(config: ThrottleConfig = {}) {
+    this.maxQueueLength = config.maxQueueLength ?? 10;
+    this.maxWaitMs = config.maxWaitMs ?? 10000;
+  }
+
+  /**
+   * Waits for the key's next release slot.
+   * @param intervalMs Time between releases for this key (the drain rate)
+   * @param signal Aborts the wait, e.g. when the client disconnects
+   * @returns true once released; false if the queue is full, the wait would
+   * exceed `maxWaitMs`, or the wait was aborted
+   */
+  acquire(
+    key: string,
+    intervalMs: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (signal?.aborted) return Promise.resolve(false);
+    const now = Date.now();
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = { waiters: [], nextReleaseAt: 0, timer: null };
+      this.queues.set(key, queue);
+    }
+
+    if (queue.waiters.length === 0 && now >= queue.nextReleaseAt) {
+      queue.nextReleaseAt = now + intervalMs;
+      this.schedule(key, queue);
+      return Promise.resolve(true);
+    }
+
+    const releaseAt =
+      Math.max(queue.nextReleaseAt, now) + queue.waiters.length * intervalMs;
+    if (
+      queue.waiters.length >= this.maxQueueLength ||
+      releaseAt - now > this.maxWaitMs
+    ) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = { intervalMs, resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = queue!.waiters.indexOf(waiter);
+          if (index !== -1) queue!.waiters.splice(index, 1);
+          resolve(false);
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      queue!.waiters.push(waiter);
+      this.schedule(key, queue!);
+    });
+  }
+
+  /**
+   * Queue state of `key`: free queue places and when the next request can be
+   * released.
+   */
+  getState(key: string): { remaining: number; nextReleaseAt: number } {
+    const queue = this.queues.get(key);
+    const now = Date.now();
+    return {
+      remaining: Math.max(
+        0,
+        this.maxQueueLength - (queue?.waiters.length ?? 0)
+      ),
+      nextReleaseAt: Math.max(now, queue?.nextReleaseAt ?? now),
+    };
+  }
+
+  /**
+   * Number of requests currently waiting for `key`.
+   */
+  getQueueLength(key: string): number {
+    return this.queues.get(key)?.waiters.length ?? 0;
+  }
+
+  /**
+   * Turns away every waiting request and stops all timers.
+   */
+  close(): void {
+    for (const queue of this.queues.values()) {
+      if (queue.timer) clearTimeout(queue.timer);
+      for (const waiter of queue.waiters.splice(0)) {
+        this.release(waiter, false);
+      }
+    }
+    this.queues.clear();
+  }
+
+  /**
+   * Arms the key's timer for its next release slot. When it fires, the next
+   * waiter is released, or the idle key is forgotten.
+   */
+  private schedule(key: string, queue: KeyQueue): void {
+    if (queue.timer) {
+      // Waiting requests keep the process alive; an idle key does not
+      if (queue.waiters.length > 0) queue.timer.ref?.();
+      return;
+    }
+    queue.timer = setTimeout(() => {
+      queue.timer = null;
+      const waiter = queue.waiters.shift();
+      if (!waiter) {
+        this.queues.delete(key);
+        return;
+      }
+      queue.nextReleaseAt = Date.now() + waiter.intervalMs;
+      this.release(waiter, true);
+      this.schedule(key, queue);
+    }, Math.max(0, queue.nextReleaseAt - Date.now()));
+    if (queue.waiters.length === 0) queue.timer.unref?.();
+  }
+
+  private release(waiter: Waiter, released: boolean): void {
+    if (waiter.onAbort) {
+      waiter.signal!.removeEventListener("abort", waiter.onAbort);
+    }
+    waiter.resolve(released);
+  }
+}
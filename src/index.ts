@@ -1,16 +1,44 @@
 export * from "./middleware/express";
 export * from "./middleware/fastify";
-export {
-  RateLimit,
-  RateLimitModule,
-  NestLimiterGuard,
-} from "./middleware/nest";
 export * from "./middleware/handler";
+export * from "./middleware/node";
 export * from "./types";
 export * from "./strategies/memoryStore";
 export { RateLimiter, RateLimiterStats } from "./core/RateLimiter";
+export { Throttler } from "./core/Throttler";
+export { AccessList } from "./core/AccessList";
+export {
+  CompositeLimiter,
+  CompositeLimiterConfig,
+  CompositeDecision,
+  LimitDimension,
+} from "./core/CompositeLimiter";
 export { FixedWindowStrategy } from "./strategies/memoryStore";
 export { SlidingWindowStrategy } from "./strategies/slidingWindow";
 export { TokenBucketStrategy } from "./strategies/tokenBucket";
+export { SlidingCounterStrategy } from "./strategies/slidingCounter";
+export { GcraStrategy } from "./strategies/gcra";
+export { ConcurrencyStrategy } from "./strategies/concurrency";
+export { MultiRuleStrategy } from "./strategies/rules";
+export { MemoryStore } from "./stores/MemoryStore";
+export {
+  RedisStore,
+  RedisStoreOptions,
+  RedisClientLike,
+} from "./stores/RedisStore";
+export {
+  ClusterStore,
+  ClusterStorePrimary,
+  ClusterStoreOptions,
+  ClusterStorePrimaryOptions,
+  ClusterChannel,
+  ClusterLike,
+} from "./stores/ClusterStore";
 export { applyDefaults } from "./utils/configDefaults";
 export { validateConfig, throwIfInvalid } from "./utils/configValidator";
+export {
+  createClientIpResolver,
+  normalizeIp,
+  bucketIp,
+  ClientIpOptions,
+} from "./utils/clientIp";
@@ -1,29 +1,39 @@
-import { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction } from "express";
 import { LimiterConfig } from "../types";
-import { RateLimiter } from "../core/RateLimiter";
-import { createKeyGenerator } from "../utils/keyGenerator";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter } from "./requestLimiter";
+import { setHeaders } from "../utils/headers";
+import { abortOnDisconnect, onResponseDone } from "../utils/responseEvents";
 
 /**
  * Express middleware for rate limiting.
  */
-export function expressLimiter(config: Partial<LimiterConfig>) {
-  const limiter = new RateLimiter(config);
-  const keyFn = createKeyGenerator({
-    keyType: config.customKeyGenerator ? "custom" : config.keyType,
-    headerName: config.headerName,
-    customKeyGenerator: config.customKeyGenerator,
-  });
+export function expressLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter
+) {
+  const limiter = createRequestLimiter(config);
   return async function limiterMiddleware(
     req: Request,
     res: Response,
     next: NextFunction
   ) {
     try {
-      const key = keyFn(req);
-      const allowed = await limiter.isAllowed(key, req);
-      if (!allowed) {
+      if (await limiter.skip(req)) return next();
+      const signal = limiter.queues ? abortOnDisconnect(res) : undefined;
+      const decision = await limiter.check(req, signal);
+      if (signal?.aborted) return; // Client left while queued
+      setHeaders(res, limiter.headers(decision));
+      if (!decision.allowed) {
         return res.status(429).json({
           error: "Too many requests. Please try again later.",
+          ...(decision.dimension && { dimension: decision.dimension }),
+        });
+      }
+      if (limiter.watchesResponse) {
+        onResponseDone(res, (finished) => {
+          limiter
+            .complete(req, res, decision, finished)
+            .catch((err) => console.error("Rate limiter error:", err));
         });
       }
       next();
@@ -1,20 +1,185 @@
-import { FastifyRequest, FastifyReply } from "fastify";
-import { RateLimiter } from "../core/RateLimiter";
-import { LimiterConfig } from "../types/index";
-import { createKeyGenerator } from "../utils/keyGenerator";
-
-export function fastifyLimiter(config: Partial<LimiterConfig>) {
-  const limiter = new RateLimiter(config);
-  const keyFn = createKeyGenerator({
-    keyType: config.customKeyGenerator ? "custom" : config.keyType,
-    headerName: config.headerName,
-    customKeyGenerator: config.customKeyGenerator,
-  });
+import type {
+  FastifyPluginAsync,
+  FastifyRequest,
+  FastifyReply,
+  onRequestHookHandler,
+  onSendHookHandler,
+  onResponseHookHandler,
+  onRequestAbortHookHandler,
+} from "fastify";
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter, RequestLimiter } from "./requestLimiter";
+import { abortOnDisconnect, onResponseDone } from "../utils/responseEvents";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Decision of the rate limit plugin; null on routes it does not limit. */
+    rateLimit?: (RateLimitDecision & { dimension?: string }) | null;
+  }
+  interface FastifyContextConfig {
+    /**
+     * Limits for this route, merged over the plugin's options, or false to
+     * leave the route unlimited.
+     */
+    rateLimit?: Partial<LimiterConfig> | false;
+  }
+}
+
+export type FastifyRateLimitOptions = Partial<LimiterConfig> & {
+  /**
+   * Limit every route (default). When false, only routes that set
+   * `config.rateLimit` are limited.
+   */
+  global?: boolean;
+};
+
+/**
+ * A single onRequest hook applying one limiter to every request. Use the
+ * `fastifyRateLimit` plugin for per-route limits.
+ */
+export function fastifyLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter
+) {
+  const limiter = createRequestLimiter(config);
   return async function (req: FastifyRequest, reply: FastifyReply) {
-    const key = keyFn(req);
-    const allowed = await limiter.isAllowed(key, req);
-    if (!allowed) {
-      reply.status(429).send({ message: "Too Many Requests" });
+    if (await limiter.skip(req)) return;
+    const signal = limiter.queues ? abortOnDisconnect(reply.raw) : undefined;
+    const decision = await limiter.check(req, signal);
+    if (signal?.aborted) {
+      // Client left while queued; skip the rest of the lifecycle
+      reply.hijack();
+      return reply;
+    }
+    reply.headers(limiter.headers(decision));
+    if (!decision.allowed) {
+      return reply.status(429).send({
+        message: "Too Many Requests",
+        ...(decision.dimension && { dimension: decision.dimension }),
+      });
+    }
+    if (limiter.watchesResponse) {
+      // Same moment as Fastify's onResponse hook, which a single onRequest hook cannot add
+      onResponseDone(reply.raw, (finished) => {
+        limiter
+          .complete(req, reply, decision, finished)
+          .catch((err) => console.error("Rate limiter error:", err));
+      });
+    }
+  };
+}
+
+function toArray<T>(hooks: T | T[] | undefined): T[] {
+  if (hooks === undefined) return [];
+  return Array.isArray(hooks) ? hooks : [hooks];
+}
+
+/**
+ * Route hooks enforcing one limiter: decide in onRequest, send headers in
+ * onSend, and settle the request in onResponse (or onRequestAbort when the
+ * client goes away first).
+ */
+function createRouteHooks(limiter: RequestLimiter) {
+  // Replies of allowed requests that still need settling
+  const pending = new WeakMap<FastifyRequest, FastifyReply>();
+
+  const settle = async (request: FastifyRequest, finished: boolean) => {
+    const reply = pending.get(request);
+    if (!reply || !request.rateLimit) return;
+    pending.delete(request);
+    await limiter.complete(request, reply, request.rateLimit, finished);
+  };
+
+  const onRequest: onRequestHookHandler = async function (request, reply) {
+    if (await limiter.skip(request)) return;
+    const signal = limiter.queues ? abortOnDisconnect(reply.raw) : undefined;
+    const decision = await limiter.check(request, signal);
+    if (signal?.aborted) {
+      reply.hijack();
+      return reply;
     }
+    request.rateLimit = decision;
+    if (!decision.allowed) {
+      return reply.code(429).send({
+        message: "Too Many Requests",
+        ...(decision.dimension && { dimension: decision.dimension }),
+      });
+    }
+    if (limiter.watchesResponse) pending.set(request, reply);
+  };
+
+  const onSend: onSendHookHandler = async function (request, reply, payload) {
+    if (request.rateLimit) reply.headers(limiter.headers(request.rateLimit));
+    return payload;
+  };
+
+  const onResponse: onResponseHookHandler = async function (request) {
+    await settle(request, true);
+  };
+
+  const onRequestAbort: onRequestAbortHookHandler = async function (request) {
+    await settle(request, false);
   };
+
+  return { onRequest, onSend, onResponse, onRequestAbort };
 }
+
+const rateLimitPlugin: FastifyPluginAsync<FastifyRateLimitOptions> = async (
+  fastify,
+  options
+) => {
+  const { global = true, ...config } = options;
+  // Created up front so invalid options fail at registration
+  const shared = createRequestLimiter(config);
+  // One limiter per route config object; HEAD routes share their GET route's
+  const routeLimiters = new Map<object, RequestLimiter>();
+
+  if (!fastify.hasRequestDecorator("rateLimit")) {
+    fastify.decorateRequest("rateLimit", null);
+  }
+
+  fastify.addHook("onRoute", (routeOptions) => {
+    const routeConfig = routeOptions.config?.rateLimit;
+    if (routeConfig === false || (!routeConfig && !global)) return;
+    let limiter = shared;
+    if (routeConfig) {
+      limiter =
+        routeLimiters.get(routeConfig) ??
+        createRequestLimiter({ ...config, ...routeConfig });
+      routeLimiters.set(routeConfig, limiter);
+    }
+    const hooks = createRouteHooks(limiter);
+    routeOptions.onRequest = [
+      ...toArray(routeOptions.onRequest),
+      hooks.onRequest,
+    ];
+    routeOptions.onSend = [...toArray(routeOptions.onSend), hooks.onSend];
+    routeOptions.onResponse = [
+      ...toArray(routeOptions.onResponse),
+      hooks.onResponse,
+    ];
+    routeOptions.onRequestAbort = [
+      ...toArray(routeOptions.onRequestAbort),
+      hooks.onRequestAbort,
+    ];
+  });
+
+  fastify.addHook("onClose", async () => {
+    await Promise.all(
+      [shared, ...routeLimiters.values()].map((limiter) => limiter.close())
+    );
+  });
+};
+
+/**
+ * Fastify plugin limiting every route registered after it in the same
+ * context (and its children). Routes override the plugin's options with
+ * `config: { rateLimit: { ... } }` or opt out with `rateLimit: false`; each
+ * route with its own options gets its own limiter. The decision is available
+ * as `request.rateLimit`, and limiters are closed with the server.
+ */
+export const fastifyRateLimit = Object.assign(rateLimitPlugin, {
+  // What fastify-plugin sets: hooks apply to the registering context
+  [Symbol.for("skip-override")]: true,
+  [Symbol.for("fastify.display-name")]: "zenin-limiter",
+});
@@ -0,0 +1,172 @@
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter, RequestLimiter } from "./requestLimiter";
+
+export interface FetchLimiterOptions {
+  /**
+   * Client address, e.g. Deno's `info.remoteAddr.hostname`, or a header
+   * such as `cf-connecting-ip` that your proxy sets. Clients can send any
+   * header themselves, so only read one the proxy in front always
+   * overwrites. A `Request` carries no address of its own, so limiters
+   * keyed by IP (the default `keyType`) require this.
+   */
+  getIp?: (request: Request) => string | undefined;
+
+  /**
+   * JSON body of 429 responses, or a function building it from the
+   * decision. Default: `{ message: "Too Many Requests" }`.
+   */
+  body?:
+    | unknown
+    | ((decision: RateLimitDecision & { dimension?: string }) => unknown);
+}
+
+/**
+ * What key generators, hooks and predicates receive for a web `Request`:
+ * the Node-style fields they read, with the original request as `raw`.
+ */
+export type FetchRequestView = {
+  method: string;
+  url: string;
+  path: string;
+  headers: Record<string, string>;
+  ip?: string;
+  raw: Request;
+};
+
+/**
+ * The decision for one `Request`, with what is needed to finish handling it.
+ */
+export type FetchOutcome = {
+  view: FetchRequestView;
+  /** Undefined for requests the `skip` option let through. */
+  decision?: RateLimitDecision & { dimension?: string };
+  /** A 429 response to send instead of handling the request. */
+  rejection?: Response;
+  headers: Record<string, string>;
+};
+
+function toRequestView(
+  request: Request,
+  getIp?: (request: Request) => string | undefined
+): FetchRequestView {
+  const url = new URL(request.url);
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => (headers[name] = value));
+  return {
+    method: request.method,
+    url: url.pathname + url.search,
+    path: url.pathname,
+    headers,
+    ip: getIp?.(request),
+    raw: request,
+  };
+}
+
+/** True if the config keys requests by client address. */
+function keysByIp(config: Partial<LimiterConfig>): boolean {
+  return !config.customKeyGenerator && (config.keyType ?? "ip") === "ip";
+}
+
+/**
+ * Shared by the fetch adapters: decides a `Request` and builds its 429
+ * response or the headers for its real one.
+ */
+export function createFetchCore(
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: FetchLimiterOptions = {}
+) {
+  const configs =
+    config instanceof CompositeLimiter ? config.config.dimensions : [config];
+  // Without an address every client would share the "__unknown_ip__" bucket
+  if (!options.getIp && configs.some(keysByIp)) {
+    throw new Error(
+      'keyType "ip" requires a getIp option: a Request carries no client address'
+    );
+  }
+  const limiter: RequestLimiter = createRequestLimiter(config);
+  return {
+    limiter,
+    async decide(request: Request): Promise<FetchOutcome> {
+      const view = toRequestView(request, options.getIp);
+      if (await limiter.skip(view)) return { view, headers: {} };
+      const signal = limiter.queues ? request.signal : undefined;
+      const decision = await limiter.check(view, signal);
+      const headers = limiter.headers(decision);
+      if (decision.allowed) return { view, decision, headers };
+      const body =
+        typeof options.body === "function"
+          ? options.body(decision)
+          : options.body ?? {
+              message: "Too Many Requests",
+              ...(decision.dimension && { dimension: decision.dimension }),
+            };
+      const rejection = new Response(JSON.stringify(body), {
+        status: 429,
+        headers: { ...headers, "Content-Type": "application/json" },
+      });
+      return { view, decision, rejection, headers };
+    },
+    /**
+     * Settles an allowed request once its response is known; `response` is
+     * undefined if the handler threw.
+     */
+    async complete(outcome: FetchOutcome, response?: Response): Promise<void> {
+      if (!outcome.decision || !limiter.watchesResponse) return;
+      await limiter.complete(
+        outcome.view,
+        response,
+        outcome.decision,
+        response !== undefined
+      );
+    },
+  };
+}
+
+/**
+ * Rate limiting for web-standard `Request`s (edge runtimes, Deno, Bun,
+ * Next.js route handlers). Resolves to `null` when the request may proceed,
+ * or to a ready 429 `Response` with rate limit headers.
+ *
+ * Requests are not settled afterwards, so refunds (`skipSuccessfulRequests`
+ * and friends) and the 'concurrency' strategy need `withRateLimit`.
+ */
+export function fetchLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: FetchLimiterOptions = {}
+): (request: Request) => Promise<Response | null> {
+  const core = createFetchCore(config, options);
+  return async (request) => (await core.decide(request)).rejection ?? null;
+}
+
+/**
+ * Wraps a `(request) => Response` handler: rejected requests get a 429, and
+ * allowed ones get rate limit headers on the handler's response and are
+ * settled once it is ready.
+ */
+export function withRateLimit<A extends unknown[]>(
+  handler: (request: Request, ...args: A) => Response | Promise<Response>,
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: FetchLimiterOptions = {}
+): (request: Request, ...args: A) => Promise<Response> {
+  const core = createFetchCore(config, options);
+  return async (request, ...args) => {
+    const outcome = await core.decide(request);
+    if (outcome.rejection) return outcome.rejection;
+    let response: Response | undefined;
+    try {
+      response = await handler(request, ...args);
+    } finally {
+      core
+        .complete(outcome, response)
+        .catch((err) => console.error("Rate limiter error:", err));
+    }
+    if (Object.keys(outcome.headers).length === 0) return response;
+    // Responses from fetch() have immutable headers, so copy before adding
+    const limited = new Response(response.body, response);
+    for (const [name, value] of Object.entries(outcome.headers)) {
+      limited.headers.set(name, value);
+    }
+    return limited;
+  };
+}
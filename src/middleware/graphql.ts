@@ -0,0 +1,404 @@
+import {
+  DirectiveLocation,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLDirective,
+  GraphQLError,
+  GraphQLField,
+  GraphQLInt,
+  GraphQLNamedType,
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  getArgumentValues,
+  getDirectiveValues,
+  getNamedType,
+  getOperationAST,
+  isInterfaceType,
+  isObjectType,
+} from "graphql";
+import type { ApolloServerPlugin } from "@apollo/server";
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { RateLimiter } from "../core/RateLimiter";
+import { createKeyGenerator } from "../utils/keyGenerator";
+import { rateLimitHeaders } from "../utils/headers";
+
+/**
+ * `@rateLimit` on a field definition gives the field its own limit per
+ * client, its own cost, or both.
+ */
+export const rateLimitDirective = new GraphQLDirective({
+  name: "rateLimit",
+  description:
+    "Limits how often a field may be requested per client, and/or sets its cost.",
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    limit: { type: GraphQLInt },
+    windowInSeconds: { type: GraphQLInt },
+    cost: { type: GraphQLInt },
+  },
+});
+
+/** SDL declaring `@rateLimit`, to include in schema type definitions. */
+export const rateLimitDirectiveTypeDefs =
+  "directive @rateLimit(limit: Int, windowInSeconds: Int, cost: Int) on FIELD_DEFINITION";
+
+/**
+ * Arguments of `@rateLimit`, also read from `extensions.rateLimit` of
+ * fields in code-first schemas.
+ */
+export type FieldRateLimit = {
+  /** Requests of the field per window and client. */
+  limit?: number;
+  /** Defaults to the limiter's `windowInSeconds`. */
+  windowInSeconds?: number;
+  /** Cost of the field itself, before its selections. */
+  cost?: number;
+};
+
+/** What a complexity function is told about one selected field. */
+export type GraphQLFieldCost = {
+  typeName: string;
+  fieldName: string;
+  /** Argument values, with variables applied. */
+  args: Record<string, unknown>;
+  /** Summed cost of the field's own selections. */
+  childCost: number;
+  /** `cost` of the field's `@rateLimit`, if set. */
+  cost?: number;
+};
+
+export type GraphQLLimiterOptions = Omit<Partial<LimiterConfig>, "cost"> & {
+  /**
+   * Count each operation name separately (default), or every operation of
+   * a client against one limit.
+   */
+  perOperation?: boolean;
+
+  /**
+   * Cost of a selected field, charged as the operation's weighted cost.
+   * Default: the field's `@rateLimit` cost (or 1) plus its selections' cost.
+   */
+  complexity?: (field: GraphQLFieldCost) => number;
+};
+
+export type ApolloRateLimitOptions = GraphQLLimiterOptions & {
+  /**
+   * The HTTP request key generators should read, from the context value.
+   * Default: `context.req` or `context.request`, else Apollo's own view of
+   * the request (method and headers).
+   */
+  getRequest?: (context: any) => any;
+};
+
+export type GraphQLOperationInput = {
+  schema: GraphQLSchema;
+  document: DocumentNode;
+  operationName?: string | null;
+  variables?: Record<string, unknown>;
+  /** The HTTP request of the operation, for key generation and hooks. */
+  req?: any;
+};
+
+export type GraphQLRateLimitResult = {
+  /** The operation's decision, or the rejecting field's. */
+  decision: RateLimitDecision;
+  /** Computed cost of the operation. */
+  cost: number;
+  /** Rate limit headers for the response. */
+  headers: Record<string, string>;
+  /** Set when the operation is rejected; respond with it instead of executing. */
+  error?: GraphQLError;
+};
+
+type OperationAnalysis = {
+  cost: number;
+  /** Rate limited fields by schema coordinate, with how often each is selected. */
+  fields: Map<string, { rateLimit: FieldRateLimit; count: number }>;
+};
+
+const defaultComplexity = ({ cost = 1, childCost }: GraphQLFieldCost) =>
+  cost + childCost;
+
+const fieldRateLimits = new WeakMap<
+  GraphQLField<unknown, unknown>,
+  FieldRateLimit | null
+>();
+
+function getFieldRateLimit(
+  field: GraphQLField<unknown, unknown>
+): FieldRateLimit | null {
+  let rateLimit = fieldRateLimits.get(field);
+  if (rateLimit === undefined) {
+    rateLimit =
+      (field.extensions?.rateLimit as FieldRateLimit | undefined) ??
+      (field.astNode &&
+        (getDirectiveValues(rateLimitDirective, field.astNode) as
+          | FieldRateLimit
+          | undefined)) ??
+      null;
+    fieldRateLimits.set(field, rateLimit);
+  }
+  return rateLimit;
+}
+
+/**
+ * Walks the operation's selections, fragments included, summing field
+ * costs and counting the selections of rate limited fields.
+ */
+function analyzeOperation(
+  input: GraphQLOperationInput,
+  operation: OperationDefinitionNode,
+  complexity: (field: GraphQLFieldCost) => number
+): OperationAnalysis {
+  const { schema, document, variables } = input;
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+  const fields: OperationAnalysis["fields"] = new Map();
+  // Validation rejects fragment cycles, but the walk must not rely on it
+  const visiting = new Set<string>();
+
+  const fieldCost = (node: FieldNode, parentType: GraphQLNamedType) => {
+    // Unions only have meta fields
+    if (!isObjectType(parentType) && !isInterfaceType(parentType)) return 0;
+    const field = parentType.getFields()[node.name.value];
+    if (!field) return 0; // __typename and other meta fields
+    const childCost = node.selectionSet
+      ? selectionCost(node.selectionSet, getNamedType(field.type))
+      : 0;
+    const rateLimit = getFieldRateLimit(field);
+    if (rateLimit?.limit !== undefined) {
+      const coordinate = `${parentType.name}.${field.name}`;
+      const entry = fields.get(coordinate) ?? { rateLimit, count: 0 };
+      entry.count++;
+      fields.set(coordinate, entry);
+    }
+    return complexity({
+      typeName: parentType.name,
+      fieldName: field.name,
+      args: getArgumentValues(field, node, variables),
+      childCost,
+      cost: rateLimit?.cost,
+    });
+  };
+
+  const selectionCost = (
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLNamedType
+  ): number => {
+    let total = 0;
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) {
+        total += fieldCost(selection, parentType);
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const type = selection.typeCondition
+          ? schema.getType(selection.typeCondition.name.value)
+          : parentType;
+        total += selectionCost(selection.selectionSet, type ?? parentType);
+      } else {
+        const name = selection.name.value;
+        const fragment = fragments.get(name);
+        if (!fragment || visiting.has(name)) continue;
+        visiting.add(name);
+        const type = schema.getType(fragment.typeCondition.name.value);
+        total += selectionCost(fragment.selectionSet, type ?? parentType);
+        visiting.delete(name);
+      }
+    }
+    return total;
+  };
+
+  const rootType = schema.getRootType(operation.operation);
+  return {
+    cost: rootType ? selectionCost(operation.selectionSet, rootType) : 0,
+    fields,
+  };
+}
+
+function rateLimitedError(
+  decision: RateLimitDecision,
+  field?: string
+): GraphQLError {
+  return new GraphQLError(
+    field ? `Too many requests for ${field}` : "Too Many Requests",
+    {
+      extensions: {
+        code: "RATE_LIMITED",
+        // Retrying will not help a query costing more than the limit
+        ...(!decision.exceedsLimit && {
+          retryAfter: Math.ceil(decision.retryAfterMs / 1000),
+        }),
+        ...(field && { field }),
+      },
+    }
+  );
+}
+
+/**
+ * Rate limiting for GraphQL operations, independent of the server. Each
+ * operation is charged its computed cost per client and operation name,
+ * and fields with a `@rateLimit` limit are counted per client as well.
+ * A rejected operation consumes nothing and comes with a `GraphQLError`
+ * whose extensions are `{ code: "RATE_LIMITED", retryAfter }`.
+ */
+export function graphqlLimiter(options: GraphQLLimiterOptions = {}) {
+  const {
+    perOperation = true,
+    complexity = defaultComplexity,
+    ...config
+  } = options;
+  const limiter = new RateLimiter(config);
+  const fieldLimiters = new Map<string, RateLimiter>();
+  const keyFn = createKeyGenerator({
+    keyType: config.customKeyGenerator ? "custom" : config.keyType,
+    headerName: config.headerName,
+    customKeyGenerator: config.customKeyGenerator,
+    trustProxy: config.trustProxy,
+    ipv6PrefixLength: config.ipv6PrefixLength,
+  });
+
+  const getFieldLimiter = (coordinate: string, rateLimit: FieldRateLimit) => {
+    let fieldLimiter = fieldLimiters.get(coordinate);
+    if (!fieldLimiter) {
+      // Fields have a single limit, whatever rules the operation has
+      const { rules: _rules, ...fieldConfig } = config;
+      fieldLimiter = new RateLimiter({
+        ...fieldConfig,
+        limit: rateLimit.limit,
+        ...(rateLimit.windowInSeconds && {
+          windowInSeconds: rateLimit.windowInSeconds,
+        }),
+      });
+      fieldLimiters.set(coordinate, fieldLimiter);
+    }
+    return fieldLimiter;
+  };
+
+  return {
+    /**
+     * Charges an operation once it has been parsed and validated. Resolves
+     * to null for operations the `skip` option lets through.
+     */
+    async check(
+      input: GraphQLOperationInput
+    ): Promise<GraphQLRateLimitResult | null> {
+      const { req } = input;
+      if (config.skip && (await config.skip(req))) return null;
+      const operation = getOperationAST(input.document, input.operationName);
+      if (!operation) return null; // Rejected by validation already
+      const { cost, fields } = analyzeOperation(input, operation, complexity);
+      const clientKey = keyFn(req);
+      const operationKey = perOperation
+        ? `${clientKey}:${operation.name?.value ?? "anonymous"}`
+        : clientKey;
+
+      const decision = await limiter.charge(operationKey, cost, req);
+      const headers = rateLimitHeaders(decision, config);
+      if (!decision.allowed) {
+        return { decision, cost, headers, error: rateLimitedError(decision) };
+      }
+
+      const charged: Array<[RateLimiter, string, number]> = [
+        [limiter, operationKey, decision.consumed],
+      ];
+      for (const [coordinate, { rateLimit, count }] of fields) {
+        const fieldLimiter = getFieldLimiter(coordinate, rateLimit);
+        const fieldKey = `${clientKey}:${coordinate}`;
+        const fieldDecision = await fieldLimiter.charge(fieldKey, count, req);
+        if (!fieldDecision.allowed) {
+          // The operation does not run, so nothing it was charged counts
+          await Promise.all(
+            charged.map(([l, key, units]) => l.refund(key, units, req))
+          );
+          return {
+            decision: fieldDecision,
+            cost,
+            headers: rateLimitHeaders(fieldDecision, {
+              windowInSeconds:
+                rateLimit.windowInSeconds ?? config.windowInSeconds,
+              headers: config.headers,
+            }),
+            error: rateLimitedError(fieldDecision, coordinate),
+          };
+        }
+        charged.push([fieldLimiter, fieldKey, fieldDecision.consumed]);
+      }
+      return { decision, cost, headers };
+    },
+
+    /** Shuts down the operation and field limiters. */
+    async close(): Promise<void> {
+      await Promise.all(
+        [limiter, ...fieldLimiters.values()].map((l) => l.close())
+      );
+    },
+  };
+}
+
+/**
+ * Apollo Server plugin enforcing `graphqlLimiter` once an operation has been
+ * parsed and validated. Allowed operations get rate limit headers; rejected
+ * ones get a 429 with the `RATE_LIMITED` error.
+ */
+export function apolloRateLimitPlugin<TContext extends Record<string, any>>(
+  options: ApolloRateLimitOptions = {}
+): ApolloServerPlugin<TContext> {
+  const {
+    getRequest = (context: any) => context?.req ?? context?.request,
+    ...limiterOptions
+  } = options;
+  const graphql = graphqlLimiter(limiterOptions);
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation(requestContext) {
+          const http = requestContext.request.http;
+          // Without a request in the context, fall back to Apollo's view of it
+          const req = getRequest(requestContext.contextValue) ?? {
+            method: http?.method,
+            headers: http ? Object.fromEntries(http.headers) : {},
+          };
+          const result = await graphql.check({
+            schema: requestContext.schema,
+            document: requestContext.document,
+            operationName: requestContext.operationName,
+            variables: requestContext.request.variables,
+            req,
+          });
+          if (!result) return;
+          const headers = new Map(
+            Object.entries(result.headers).map(([name, value]) => [
+              name.toLowerCase(),
+              value,
+            ])
+          );
+          if (result.error) {
+            // Apollo Server reads and removes `http` to set the response
+            throw new GraphQLError(result.error.message, {
+              extensions: {
+                ...result.error.extensions,
+                http: { status: 429, headers },
+              },
+            });
+          }
+          for (const [name, value] of headers) {
+            requestContext.response.http?.headers.set(name, value);
+          }
+        },
+      };
+    },
+    async serverWillStart() {
+      return {
+        async serverWillStop() {
+          await graphql.close();
+        },
+      };
+    },
+  };
+}
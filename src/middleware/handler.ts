@@ -1,26 +1,45 @@
-import { RateLimiter } from "../core/RateLimiter";
 import { LimiterConfig } from "../types/index";
-import { createKeyGenerator } from "../utils/keyGenerator";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter } from "./requestLimiter";
+import { setHeaders } from "../utils/headers";
+import { onResponseDone } from "../utils/responseEvents";
 
-export function universalLimiter(config: Partial<LimiterConfig>) {
-  const limiter = new RateLimiter(config);
-  const keyFn = createKeyGenerator({
-    keyType: config.customKeyGenerator ? "custom" : config.keyType,
-    headerName: config.headerName,
-    customKeyGenerator: config.customKeyGenerator,
-  });
+export function universalLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter
+) {
+  const limiter = createRequestLimiter(config);
   return async function (req: any, res: any, next: () => void) {
-    const key = keyFn(req);
-    const allowed = await limiter.isAllowed(key, req);
-    if (!allowed) {
+    if (await limiter.skip(req)) return next();
+    const decision = await limiter.check(req);
+    setHeaders(res, limiter.headers(decision));
+    if (!decision.allowed) {
+      const body = {
+        message: "Too Many Requests",
+        ...(decision.dimension && { dimension: decision.dimension }),
+      };
       if (res?.status && res?.send) {
-        return res.status(429).send({ message: "Too Many Requests" });
+        return res.status(429).send(body);
       } else if (res?.code && res?.send) {
-        return res.code(429).send({ message: "Too Many Requests" });
+        return res.code(429).send(body);
+      } else if (res?.writeHead && res?.end) {
+        // Plain Node response; headers were set above
+        res.writeHead(429, { "Content-Type": "application/json" });
+        return res.end(JSON.stringify(body));
       } else {
         throw new Error("Rate limit exceeded");
       }
     }
+    if (limiter.watchesResponse) {
+      // Node and Express responses emit finish/close themselves; Fastify wraps one in `raw`
+      const response = typeof res?.once === "function" ? res : res?.raw;
+      if (typeof response?.once === "function") {
+        onResponseDone(response, (finished) => {
+          limiter
+            .complete(req, res, decision, finished)
+            .catch((err) => console.error("Rate limiter error:", err));
+        });
+      }
+    }
     next();
   };
 }
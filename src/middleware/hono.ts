@@ -0,0 +1,31 @@
+import type { MiddlewareHandler } from "hono";
+import { LimiterConfig } from "../types/index";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createFetchCore, FetchLimiterOptions } from "./fetch";
+
+/**
+ * Hono middleware for rate limiting, built on `fetchLimiter`. Requests are
+ * settled once downstream handlers have produced `c.res`.
+ */
+export function honoLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: FetchLimiterOptions = {}
+): MiddlewareHandler {
+  const core = createFetchCore(config, options);
+  return async (c, next) => {
+    const outcome = await core.decide(c.req.raw);
+    if (outcome.rejection) return outcome.rejection;
+    for (const [name, value] of Object.entries(outcome.headers)) {
+      c.header(name, value);
+    }
+    let finished = false;
+    try {
+      await next();
+      finished = true;
+    } finally {
+      core
+        .complete(outcome, finished ? c.res : undefined)
+        .catch((err) => console.error("Rate limiter error:", err));
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import type { Context, Next } from "koa";
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter } from "./requestLimiter";
+import { abortOnDisconnect } from "../utils/responseEvents";
+
+export interface KoaLimiterOptions {
+  /**
+   * Body of 429 responses, or a function building it from the context and
+   * the decision. Default: `{ message: "Too Many Requests" }`.
+   */
+  body?:
+    | unknown
+    | ((
+        ctx: Context,
+        decision: RateLimitDecision & { dimension?: string }
+      ) => unknown);
+}
+
+/**
+ * Koa middleware for rate limiting. Keys are read from `ctx.request`, and
+ * requests are settled (refunded or released) once downstream middleware
+ * has finished; a request whose downstream throws counts as failed.
+ */
+export function koaLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: KoaLimiterOptions = {}
+) {
+  const limiter = createRequestLimiter(config);
+  return async function limiterMiddleware(ctx: Context, next: Next) {
+    if (await limiter.skip(ctx.request)) return next();
+    const signal = limiter.queues ? abortOnDisconnect(ctx.res) : undefined;
+    const decision = await limiter.check(ctx.request, signal);
+    if (signal?.aborted) return; // Client left while queued
+    ctx.set(limiter.headers(decision));
+    if (!decision.allowed) {
+      ctx.status = 429;
+      ctx.body =
+        typeof options.body === "function"
+          ? options.body(ctx, decision)
+          : options.body ?? {
+              message: "Too Many Requests",
+              ...(decision.dimension && { dimension: decision.dimension }),
+            };
+      return;
+    }
+    if (!limiter.watchesResponse) return next();
+    let finished = false;
+    try {
+      await next();
+      finished = true;
+    } finally {
+      limiter
+        .complete(ctx.request, ctx.response, decision, finished)
+        .catch((err) => console.error("Rate limiter error:", err));
+    }
+  };
+}
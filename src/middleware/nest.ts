@@ -1,69 +1,136 @@
 import {
   CanActivate,
+  DynamicModule,
   ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
   Injectable,
-  UnauthorizedException,
+  OnModuleDestroy,
+  Optional,
   SetMetadata,
   Module,
   Global,
-  Provider,
 } from "@nestjs/common";
-import { Request } from "express";
-import { RateLimiter } from "../core/RateLimiter";
+import { Reflector } from "@nestjs/core";
 import { LimiterConfig } from "../types/index";
-import { createKeyGenerator } from "../utils/keyGenerator";
+import { createRequestLimiter, RequestLimiter } from "./requestLimiter";
+import { setHeaders } from "../utils/headers";
+import { onResponseDone } from "../utils/responseEvents";
 
 export const RATE_LIMIT_METADATA_KEY = "rate_limit_config";
-export function RateLimit(config: LimiterConfig) {
-  return function (
-    target: any,
-    propertyKey: string,
-    descriptor: PropertyDescriptor
-  ) {
-    Reflect.defineMetadata(RATE_LIMIT_METADATA_KEY, config, descriptor.value);
-    return descriptor;
-  };
+export const SKIP_RATE_LIMIT_METADATA_KEY = "skip_rate_limit";
+/** Injection token of the global limiter options. */
+export const RATE_LIMIT_OPTIONS = "RATE_LIMIT_OPTIONS";
+
+/**
+ * Overrides the global options for a controller or a handler. Method-level
+ * options are merged over class-level ones.
+ */
+export function RateLimit(config: Partial<LimiterConfig>) {
+  return SetMetadata(RATE_LIMIT_METADATA_KEY, config);
+}
+
+/**
+ * Leaves a controller or a handler unlimited.
+ */
+export function SkipRateLimit() {
+  return SetMetadata(SKIP_RATE_LIMIT_METADATA_KEY, true);
 }
 
 @Injectable()
-export class NestLimiterGuard implements CanActivate {
-  private limiter: RateLimiter;
-  private keyFn: (req: any) => string;
-  constructor(private readonly config: Partial<LimiterConfig>) {
-    this.limiter = new RateLimiter(config);
-    this.keyFn = createKeyGenerator({
-      keyType: config.customKeyGenerator ? "custom" : config.keyType,
-      headerName: config.headerName,
-      customKeyGenerator: config.customKeyGenerator,
-    });
-  }
+export class NestLimiterGuard implements CanActivate, OnModuleDestroy {
+  // One limiter per handler, so route counters survive between requests
+  private handlerLimiters = new Map<Function, RequestLimiter>();
+  private defaultLimiter?: RequestLimiter;
+
+  constructor(
+    @Optional()
+    @Inject(RATE_LIMIT_OPTIONS)
+    private readonly config: Partial<LimiterConfig> = {},
+    @Optional()
+    @Inject(Reflector)
+    private readonly reflector: Reflector = new Reflector()
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const ctx = context.switchToHttp();
-    const request = ctx.getRequest<Request>();
-    // Check for route-specific config
     const handler = context.getHandler();
     const classRef = context.getClass();
-    const routeConfig =
-      Reflect.getMetadata(RATE_LIMIT_METADATA_KEY, handler) ||
-      Reflect.getMetadata(RATE_LIMIT_METADATA_KEY, classRef);
-    let limiter = this.limiter;
-    let keyFn = this.keyFn;
-    if (routeConfig) {
-      limiter = new RateLimiter(routeConfig);
-      keyFn = createKeyGenerator({
-        keyType: routeConfig.keyType,
-        headerName: routeConfig.headerName,
-        customKeyGenerator: routeConfig.customKeyGenerator,
-      });
+    const skipped = this.reflector.getAllAndOverride<boolean>(
+      SKIP_RATE_LIMIT_METADATA_KEY,
+      [handler, classRef]
+    );
+    if (skipped) return true;
+
+    const ctx = context.switchToHttp();
+    const request = ctx.getRequest();
+    // Mocked contexts in unit tests may not expose a response
+    const response = ctx.getResponse?.();
+    const limiter = this.getLimiter(handler, classRef);
+    if (await limiter.skip(request)) return true;
+
+    const decision = await limiter.check(request);
+    setHeaders(response, limiter.headers(decision));
+    if (!decision.allowed) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: "Too Many Requests",
+          ...(decision.dimension && { dimension: decision.dimension }),
+        },
+        HttpStatus.TOO_MANY_REQUESTS
+      );
     }
-    const key = keyFn(request);
-    const allowed = await limiter.isAllowed(key, request);
-    if (!allowed) {
-      throw new UnauthorizedException("Too Many Requests");
+    // Express responses emit finish/close themselves; Fastify wraps one in `raw`
+    const raw = typeof response?.once === "function" ? response : response?.raw;
+    if (limiter.watchesResponse && typeof raw?.once === "function") {
+      onResponseDone(raw, (finished) => {
+        limiter
+          .complete(request, response, decision, finished)
+          .catch((err) => console.error("Rate limiter error:", err));
+      });
     }
     return true;
   }
+
+  /**
+   * The limiter for a handler: the global options, merged with the
+   * controller's and then the handler's `@RateLimit` options. Handlers
+   * without `@RateLimit` share one limiter.
+   */
+  private getLimiter(handler: Function, classRef: Function): RequestLimiter {
+    const [classConfig, handlerConfig] = this.reflector.getAll<
+      Array<Partial<LimiterConfig> | undefined>
+    >(RATE_LIMIT_METADATA_KEY, [classRef, handler]);
+    if (!classConfig && !handlerConfig) {
+      this.defaultLimiter ??= createRequestLimiter(this.config);
+      return this.defaultLimiter;
+    }
+    let limiter = this.handlerLimiters.get(handler);
+    if (!limiter) {
+      limiter = createRequestLimiter({
+        ...this.config,
+        ...classConfig,
+        ...handlerConfig,
+      });
+      this.handlerLimiters.set(handler, limiter);
+    }
+    return limiter;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    const limiters = [...this.handlerLimiters.values()];
+    if (this.defaultLimiter) limiters.push(this.defaultLimiter);
+    await Promise.all(limiters.map((limiter) => limiter.close()));
+  }
+}
+
+export interface RateLimitModuleAsyncOptions {
+  imports?: any[];
+  inject?: any[];
+  useFactory: (
+    ...args: any[]
+  ) => Partial<LimiterConfig> | Promise<Partial<LimiterConfig>>;
 }
 
 @Global()
@@ -71,4 +138,34 @@ export class NestLimiterGuard implements CanActivate {
   providers: [NestLimiterGuard],
   exports: [NestLimiterGuard],
 })
-export class RateLimitModule {}
+export class RateLimitModule {
+  /**
+   * Registers the global limiter options used by `NestLimiterGuard`.
+   */
+  static forRoot(config: Partial<LimiterConfig> = {}): DynamicModule {
+    return {
+      module: RateLimitModule,
+      providers: [{ provide: RATE_LIMIT_OPTIONS, useValue: config }],
+      exports: [RATE_LIMIT_OPTIONS],
+    };
+  }
+
+  /**
+   * Same as `forRoot`, with options built by a factory that may depend on
+   * other providers, e.g. a ConfigService.
+   */
+  static forRootAsync(options: RateLimitModuleAsyncOptions): DynamicModule {
+    return {
+      module: RateLimitModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: RATE_LIMIT_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+      ],
+      exports: [RATE_LIMIT_OPTIONS],
+    };
+  }
+}
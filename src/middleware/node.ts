@@ -0,0 +1,173 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Http2ServerRequest, Http2ServerResponse } from "http2";
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createRequestLimiter, RequestLimiter } from "./requestLimiter";
+import { setHeaders } from "../utils/headers";
+import { abortOnDisconnect, onResponseDone } from "../utils/responseEvents";
+
+type NodeRequest = IncomingMessage | Http2ServerRequest;
+type NodeResponse = ServerResponse | Http2ServerResponse;
+
+export interface NodeHttpRoute {
+  /** One method, several, or "*" for any (default). Case-insensitive. */
+  method?: string | string[];
+  /**
+   * Path the route applies to, without the query string. In strings, `*`
+   * matches anything and `:name` one path segment, e.g. `/api/*` or
+   * `/users/:id/avatar`.
+   */
+  path: string | RegExp;
+  /**
+   * Limits for the route, merged over the limiter's config, a
+   * `CompositeLimiter`, or false to leave the route unlimited.
+   */
+  limit: Partial<LimiterConfig> | CompositeLimiter | false;
+}
+
+export interface NodeHttpLimiterOptions {
+  /**
+   * Per-route limits. The first matching route applies; other requests use
+   * the config.
+   */
+  routes?: NodeHttpRoute[];
+
+  /**
+   * JSON body of 429 responses, or a function building it from the request
+   * and the decision. Default: `{ message: "Too Many Requests" }`.
+   */
+  body?:
+    | unknown
+    | ((
+        req: NodeRequest,
+        decision: RateLimitDecision & { dimension?: string }
+      ) => unknown);
+}
+
+type CompiledRoute = {
+  methods?: Set<string>;
+  pattern: RegExp;
+  limiter: RequestLimiter | null;
+};
+
+function compilePath(path: string | RegExp): RegExp {
+  if (path instanceof RegExp) return path;
+  const source = path
+    .split(/(\*|:\w+)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (part.startsWith(":")) return "[^/]+";
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+function compileMethods(method?: string | string[]): Set<string> | undefined {
+  const methods = (Array.isArray(method) ? method : [method ?? "*"]).map((m) =>
+    m.toUpperCase()
+  );
+  return methods.includes("*") ? undefined : new Set(methods);
+}
+
+/**
+ * Rate limiting for `http.createServer` and `http2` compatibility handlers.
+ * Resolves to true when the request may proceed; otherwise a 429 with rate
+ * limit headers and a JSON body has been written and the handler should
+ * return. When `next` is given it is called for allowed requests, so the
+ * limiter also works as Connect-style middleware. If the limiter itself
+ * fails, the error is logged and a 500 has been written.
+ *
+ * ```ts
+ * const limit = nodeHttpLimiter({ keyType: "ip", limit: 100 });
+ * createServer(async (req, res) => {
+ *   if (!(await limit(req, res))) return;
+ *   res.end("OK");
+ * });
+ * ```
+ */
+export function nodeHttpLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter,
+  options: NodeHttpLimiterOptions = {}
+) {
+  const fallback = createRequestLimiter(config);
+  const routes: CompiledRoute[] = (options.routes ?? []).map((route) => ({
+    methods: compileMethods(route.method),
+    pattern: compilePath(route.path),
+    limiter:
+      route.limit === false
+        ? null
+        : createRequestLimiter(
+            route.limit instanceof CompositeLimiter ||
+              config instanceof CompositeLimiter
+              ? route.limit
+              : { ...config, ...route.limit }
+          ),
+  }));
+
+  const limiterFor = (req: NodeRequest): RequestLimiter | null => {
+    const method = (req.method ?? "GET").toUpperCase();
+    const path = (req.url ?? "/").split("?")[0];
+    const route = routes.find(
+      (r) => (!r.methods || r.methods.has(method)) && r.pattern.test(path)
+    );
+    return route ? route.limiter : fallback;
+  };
+
+  return Object.assign(
+    async function limiterMiddleware(
+      req: NodeRequest,
+      res: NodeResponse,
+      next?: () => void
+    ): Promise<boolean> {
+      try {
+        const limiter = limiterFor(req);
+        if (!limiter || (await limiter.skip(req))) {
+          next?.();
+          return true;
+        }
+        const signal = limiter.queues ? abortOnDisconnect(res) : undefined;
+        const decision = await limiter.check(req, signal);
+        if (signal?.aborted) return false; // Client left while queued
+        const headers = limiter.headers(decision);
+        if (!decision.allowed) {
+          const body =
+            typeof options.body === "function"
+              ? options.body(req, decision)
+              : options.body ?? {
+                  message: "Too Many Requests",
+                  ...(decision.dimension && { dimension: decision.dimension }),
+                };
+          res.writeHead(429, {
+            ...headers,
+            "Content-Type": "application/json",
+          });
+          res.end(JSON.stringify(body));
+          return false;
+        }
+        setHeaders(res, headers);
+        if (limiter.watchesResponse) {
+          onResponseDone(res, (finished) => {
+            limiter
+              .complete(req, res, decision, finished)
+              .catch((err) => console.error("Rate limiter error:", err));
+          });
+        }
+        next?.();
+        return true;
+      } catch (err) {
+        console.error("Rate limiter error:", err);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Internal rate limiter error" }));
+        return false;
+      }
+    },
+    {
+      /** Shuts down the limiters of the config and every route. */
+      close: async (): Promise<void> => {
+        const limiters = [fallback, ...routes.map((r) => r.limiter)];
+        await Promise.all(limiters.map((limiter) => limiter?.close()));
+      },
+    }
+  );
+}
@@ -0,0 +1,131 @@
+import { LimiterConfig, RateLimitDecision } from "../types";
+import { RateLimiter } from "../core/RateLimiter";
+import { CompositeLimiter } from "../core/CompositeLimiter";
+import { createKeyGenerator } from "../utils/keyGenerator";
+import { rateLimitHeaders } from "../utils/headers";
+
+/**
+ * What the middleware adapters need from a limiter: a decision per request,
+ * its headers, and settling the request once the response is done.
+ */
+export interface RequestLimiter {
+  /** True if the request bypasses the limiter (the `skip` option). */
+  skip(req: any): Promise<boolean>;
+  check(
+    req: any,
+    signal?: AbortSignal
+  ): Promise<RateLimitDecision & { dimension?: string }>;
+  headers(
+    decision: RateLimitDecision & { dimension?: string }
+  ): Record<string, string>;
+  /**
+   * Releases in-flight capacity and refunds the request if its outcome
+   * should not count. `res` is the framework's response object; `finished`
+   * is false if the connection closed before the response was sent.
+   */
+  complete(
+    req: any,
+    res: any,
+    decision: RateLimitDecision,
+    finished: boolean
+  ): Promise<void>;
+  /** `complete` has work to do, so the adapter should call it when the response is done. */
+  readonly watchesResponse: boolean;
+  /** Requests may wait in a queue, so the adapter should watch for disconnects. */
+  readonly queues: boolean;
+  /** Shuts down the limiter behind this wrapper. */
+  close(): Promise<void>;
+}
+
+type CountingOptions = Pick<
+  LimiterConfig,
+  "skip" | "skipSuccessfulRequests" | "skipFailedRequests" | "shouldCount"
+>;
+
+/**
+ * Whether a completed request counts against the limit, or `undefined` if
+ * every request counts.
+ */
+function createOutcomeCounter(
+  options: CountingOptions
+): ((req: any, res: any, finished: boolean) => Promise<boolean>) | undefined {
+  const { shouldCount, skipSuccessfulRequests, skipFailedRequests } = options;
+  if (shouldCount) {
+    return async (req, res) => !!(await shouldCount(req, res));
+  }
+  if (!skipSuccessfulRequests && !skipFailedRequests) return undefined;
+  return async (_, res, finished) => {
+    // Failed: an error status, or the connection closed before the response was sent
+    const status = res?.statusCode ?? res?.status; // Koa responses expose `status`
+    const failed = !finished || status >= 400;
+    return failed ? !skipFailedRequests : !skipSuccessfulRequests;
+  };
+}
+
+function createSkip(options: CountingOptions): (req: any) => Promise<boolean> {
+  const { skip } = options;
+  return async (req) => !!skip && !!(await skip(req));
+}
+
+/**
+ * Wraps a limiter config (one key per request) or a `CompositeLimiter`
+ * (one key per dimension) for the middleware adapters.
+ */
+export function createRequestLimiter(
+  config: Partial<LimiterConfig> | CompositeLimiter
+): RequestLimiter {
+  if (config instanceof CompositeLimiter) {
+    const composite = config;
+    const counts = createOutcomeCounter(composite.config);
+    return {
+      skip: createSkip(composite.config),
+      check: (req) => composite.check(req),
+      headers: (decision) =>
+        rateLimitHeaders(decision, {
+          ...composite.getDimensionConfig(decision.dimension!),
+          headers: composite.config.headers,
+        }),
+      complete: async (req, res, _, finished) => {
+        if (composite.needsRelease) await composite.release(req);
+        if (counts && !(await counts(req, res, finished))) {
+          await composite.refund(req);
+        }
+      },
+      get watchesResponse() {
+        return composite.needsRelease || !!counts;
+      },
+      queues: false,
+      close: () => composite.close(),
+    };
+  }
+
+  const limiter = new RateLimiter(config);
+  const counts = createOutcomeCounter(config);
+  const keyFn = createKeyGenerator({
+    keyType: config.customKeyGenerator ? "custom" : config.keyType,
+    headerName: config.headerName,
+    customKeyGenerator: config.customKeyGenerator,
+    trustProxy: config.trustProxy,
+    ipv6PrefixLength: config.ipv6PrefixLength,
+  });
+  return {
+    skip: createSkip(config),
+    check: (req, signal) => limiter.check(keyFn(req), req, signal),
+    headers: (decision) => rateLimitHeaders(decision, config),
+    complete: async (req, res, decision, finished) => {
+      if (limiter.needsRelease) await limiter.release(decision.key, req);
+      if (
+        counts &&
+        decision.consumed > 0 &&
+        !(await counts(req, res, finished))
+      ) {
+        await limiter.refund(decision.key, decision.consumed, req);
+      }
+    },
+    get watchesResponse() {
+      return limiter.needsRelease || !!counts;
+    },
+    queues: !!config.throttle,
+    close: () => limiter.close(),
+  };
+}
@@ -0,0 +1,271 @@
+import type { IncomingMessage } from "http";
+import type { RawData, WebSocket, WebSocketServer } from "ws";
+import type { Socket } from "socket.io";
+import { LimiterConfig, RateLimitDecision } from "../types/index";
+import { RateLimiter } from "../core/RateLimiter";
+
+/** An incoming message, as key functions, `cost` and hooks see it. */
+export type WebSocketMessage = {
+  /** The `ws` WebSocket or socket.io Socket the message arrived on. */
+  socket: any;
+  /** Unique per connection for the life of the limiter. */
+  connectionId: string;
+  /** The upgrade request (for socket.io, the handshake request). */
+  req?: IncomingMessage;
+  /** Event name: the socket.io event, or `getEvent` of a `ws` message. */
+  event?: string;
+  /** The payload: raw data for `ws`, the event arguments for socket.io. */
+  data: unknown;
+};
+
+/**
+ * What to do with a message over the limit: ignore it, answer with an error
+ * frame (a socket.io event) and ignore it, or close the connection.
+ */
+export type WebSocketLimitAction = "drop" | "error" | "close";
+
+export type WebSocketLimiterOptions = Omit<
+  Partial<LimiterConfig>,
+  "keyType" | "headerName" | "customKeyGenerator" | "cost"
+> & {
+  /**
+   * Whose budget a message counts against: its connection (default), its
+   * user (`getUser`), its event name per connection, or a custom key.
+   */
+  keyBy?:
+    | "connection"
+    | "user"
+    | "event"
+    | ((message: WebSocketMessage) => string);
+
+  /** The user a message belongs to, for `keyBy: "user"`. */
+  getUser?: (message: WebSocketMessage) => string | undefined;
+
+  /**
+   * Event name of a `ws` message. Default: the `type` or `event` field of
+   * JSON messages.
+   */
+  getEvent?: (data: RawData, isBinary: boolean) => string | undefined;
+
+  /** Units charged per message (default 1). */
+  cost?: number | ((message: WebSocketMessage) => number);
+
+  /** Default: "drop". */
+  action?: WebSocketLimitAction;
+
+  /**
+   * Payload of error frames. Default:
+   * `{ error: "Too Many Requests", code: "RATE_LIMITED", retryAfter }`.
+   */
+  errorPayload?: (
+    decision: RateLimitDecision,
+    message: WebSocketMessage
+  ) => unknown;
+
+  /** socket.io event carrying error frames. Default: "rate_limited". */
+  errorEvent?: string;
+
+  /** Reason sent with the 1008 close frame. Default: "Rate limit exceeded". */
+  closeReason?: string;
+};
+
+/** Close code for a message that violates the server's policy (RFC 6455). */
+const POLICY_VIOLATION = 1008;
+
+function defaultGetEvent(data: RawData, isBinary: boolean): string | undefined {
+  if (isBinary) return undefined;
+  try {
+    const parsed = JSON.parse(data.toString());
+    const event = parsed?.type ?? parsed?.event;
+    return typeof event === "string" ? event : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The shared part of the WebSocket helpers: which key a message counts
+ * against, and the decision for it.
+ */
+function createMessageLimiter(options: WebSocketLimiterOptions) {
+  // Event parsing and error delivery are left to the adapters
+  const {
+    keyBy = "connection",
+    getUser,
+    getEvent: _getEvent,
+    cost = 1,
+    action = "drop",
+    errorPayload,
+    errorEvent: _errorEvent,
+    closeReason: _closeReason,
+    ...config
+  } = options;
+  if (keyBy === "user" && !getUser) {
+    throw new Error('keyBy "user" requires a getUser function');
+  }
+  if (!["drop", "error", "close"].includes(action)) {
+    throw new Error(`Invalid action: ${action} (use drop, error or close)`);
+  }
+  const limiter = new RateLimiter(config);
+  let connections = 0;
+
+  const keyOf = (message: WebSocketMessage): string => {
+    if (typeof keyBy === "function") return keyBy(message);
+    if (keyBy === "user") {
+      return `user:${getUser!(message) ?? `anonymous:${message.connectionId}`}`;
+    }
+    if (keyBy === "event") {
+      return `event:${message.connectionId}:${message.event ?? "message"}`;
+    }
+    return `connection:${message.connectionId}`;
+  };
+
+  return {
+    limiter,
+    action,
+    nextConnectionId: () => String(++connections),
+    check(message: WebSocketMessage): Promise<RateLimitDecision> {
+      const units = typeof cost === "function" ? cost(message) : cost;
+      return limiter.charge(keyOf(message), units, message);
+    },
+    errorPayload(decision: RateLimitDecision, message: WebSocketMessage) {
+      return errorPayload
+        ? errorPayload(decision, message)
+        : {
+            error: "Too Many Requests",
+            code: "RATE_LIMITED",
+            // Retrying will not help a message costing more than the limit
+            ...(!decision.exceedsLimit && {
+              retryAfter: Math.ceil(decision.retryAfterMs / 1000),
+            }),
+          };
+    },
+    /** Frees the per-connection counter once the connection is gone. */
+    async forget(connectionId: string): Promise<void> {
+      if (keyBy === "connection") {
+        await limiter.reset(`connection:${connectionId}`);
+      }
+    },
+  };
+}
+
+/**
+ * Limits the messages every client of a `ws` server sends. Messages are
+ * checked in the order they arrive before the socket's "message" listeners
+ * see them, so existing handlers need no changes; messages over the limit
+ * never reach them.
+ */
+export function wsLimiter(
+  wss: WebSocketServer,
+  options: WebSocketLimiterOptions = {}
+) {
+  const messages = createMessageLimiter(options);
+  const getEvent = options.getEvent ?? defaultGetEvent;
+  // Parsing event names is only worth it when keys may use them
+  const needsEvent =
+    options.keyBy === "event" || typeof options.keyBy === "function";
+  const closeReason = options.closeReason ?? "Rate limit exceeded";
+
+  const onConnection = (socket: WebSocket, req: IncomingMessage) => {
+    const connectionId = messages.nextConnectionId();
+    const emit = socket.emit;
+    // Checks are async; chaining them keeps messages in order
+    let pending = Promise.resolve();
+
+    socket.emit = function (event: string | symbol, ...args: any[]) {
+      if (event !== "message") return emit.call(this, event, ...args);
+      const [data, isBinary] = args as [RawData, boolean];
+      const message: WebSocketMessage = {
+        socket,
+        connectionId,
+        req,
+        event: needsEvent ? getEvent(data, isBinary) : undefined,
+        data,
+      };
+      pending = pending
+        .then(async () => {
+          if (socket.readyState !== socket.OPEN) return;
+          const decision = await messages.check(message);
+          if (decision.allowed) {
+            emit.call(this, event, ...args);
+          } else if (messages.action === "error") {
+            socket.send(
+              JSON.stringify(messages.errorPayload(decision, message))
+            );
+          } else if (messages.action === "close") {
+            socket.close(POLICY_VIOLATION, closeReason);
+          }
+        })
+        .catch((err) => console.error("Rate limiter error:", err));
+      return socket.listenerCount(event) > 0;
+    } as typeof socket.emit;
+
+    socket.once("close", () => {
+      pending
+        .then(() => messages.forget(connectionId))
+        .catch((err) => console.error("Rate limiter error:", err));
+    });
+  };
+
+  wss.on("connection", onConnection);
+  return {
+    limiter: messages.limiter,
+    /** Stops limiting new connections and shuts down the limiter. */
+    async close(): Promise<void> {
+      wss.off("connection", onConnection);
+      await messages.limiter.close();
+    },
+  };
+}
+
+/**
+ * socket.io middleware, for `io.use()`, limiting the events every client
+ * emits. The event name is the message's `event`; error frames are emitted
+ * as `errorEvent`, and "close" disconnects the client.
+ */
+export function socketIoLimiter(options: WebSocketLimiterOptions = {}) {
+  const messages = createMessageLimiter(options);
+  const errorEvent = options.errorEvent ?? "rate_limited";
+
+  return Object.assign(
+    function limiterMiddleware(socket: Socket, next: (err?: Error) => void) {
+      const connectionId = messages.nextConnectionId();
+      // Checks are async; chaining them keeps events in order
+      let pending = Promise.resolve();
+      socket.use(([event, ...data], proceed) => {
+        const message: WebSocketMessage = {
+          socket,
+          connectionId,
+          req: socket.request,
+          event,
+          data,
+        };
+        pending = pending.then(async () => {
+          try {
+            const decision = await messages.check(message);
+            if (decision.allowed) return proceed();
+            if (messages.action === "error") {
+              socket.emit(errorEvent, messages.errorPayload(decision, message));
+            } else if (messages.action === "close") {
+              socket.disconnect(true);
+            }
+          } catch (err) {
+            console.error("Rate limiter error:", err);
+            proceed(err as Error);
+          }
+        });
+      });
+      socket.once("disconnect", () => {
+        messages
+          .forget(connectionId)
+          .catch((err) => console.error("Rate limiter error:", err));
+      });
+      next();
+    },
+    {
+      limiter: messages.limiter,
+      /** Shuts down the limiter. */
+      close: () => messages.limiter.close(),
+    }
+  );
+}
@@ -0,0 +1,583 @@
+import {
+  ConsumeResult,
+  RateLimiterConfig,
+  RateLimitStore,
+  StoreEntry,
+} from "../types";
+import { MemoryStore } from "./MemoryStore";
+import { decideFixedWindow } from "../strategies/memoryStore";
+import { decideSlidingWindow } from "../strategies/slidingWindow";
+import { decideTokenBucket } from "../strategies/tokenBucket";
+import { decideSlidingCounter } from "../strategies/slidingCounter";
+import { decideGcra } from "../strategies/gcra";
+import { updateStoreValue } from "../utils/storeUpdate";
+
+const MESSAGE_TAG = "__zeninLimiter";
+
+/**
+ * Store operations a worker forwards to the primary. The `consume*`
+ * operations carry a whole decision, so each costs one round trip and runs
+ * atomically on the primary.
+ */
+type ClusterOperations = Required<
+  Pick<
+    RateLimitStore,
+    | "get"
+    | "set"
+    | "increment"
+    | "delete"
+    | "compareAndSet"
+    | "clear"
+    | "entries"
+    | "consumeFixedWindow"
+    | "consumeSlidingWindow"
+    | "consumeTokenBucket"
+    | "consumeSlidingCounter"
+    | "consumeGcra"
+  >
+>;
+
+type StoreOperation = keyof ClusterOperations;
+type OperationArgs<Op extends StoreOperation> = Parameters<
+  ClusterOperations[Op]
+>;
+type OperationResult<Op extends StoreOperation> = Awaited<
+  ReturnType<ClusterOperations[Op]>
+>;
+
+const OPERATIONS: StoreOperation[] = [
+  "get",
+  "set",
+  "increment",
+  "delete",
+  "compareAndSet",
+  "clear",
+  "entries",
+  "consumeFixedWindow",
+  "consumeSlidingWindow",
+  "consumeTokenBucket",
+  "consumeSlidingCounter",
+  "consumeGcra",
+];
+
+/**
+ * Every cluster operation against an in-memory store: on the primary, and
+ * in a worker deciding locally.
+ */
+function operationsOf(store: MemoryStore): ClusterOperations {
+  return {
+    get: (key) => store.get(key),
+    set: (key, value, ttlMs) => store.set(key, value, ttlMs),
+    increment: (key, amount, ttlMs) => store.increment(key, amount, ttlMs),
+    delete: (key) => store.delete(key),
+    compareAndSet: (key, expected, value, ttlMs) =>
+      store.compareAndSet(key, expected, value, ttlMs),
+    clear: () => store.clear(),
+    entries: (prefix) => store.entries(prefix),
+    consumeFixedWindow: (key, limit, windowMs, now, cost) =>
+      updateStoreValue(
+        store,
+        key,
+        (entry: Parameters<typeof decideFixedWindow>[0]) =>
+          decideFixedWindow(entry, limit, windowMs, now, cost)
+      ),
+    consumeSlidingWindow: (key, limit, windowMs, now, cost) =>
+      updateStoreValue(
+        store,
+        key,
+        (entry: Parameters<typeof decideSlidingWindow>[0]) =>
+          decideSlidingWindow(entry, limit, windowMs, now, cost)
+      ),
+    consumeTokenBucket: (key, capacity, windowMs, now, cost) =>
+      updateStoreValue(
+        store,
+        key,
+        (entry: Parameters<typeof decideTokenBucket>[0]) =>
+          decideTokenBucket(entry, capacity, windowMs, now, cost)
+      ),
+    consumeSlidingCounter: (key, limit, windowMs, now, cost) =>
+      updateStoreValue(
+        store,
+        key,
+        (entry: Parameters<typeof decideSlidingCounter>[0]) =>
+          decideSlidingCounter(entry, limit, windowMs, now, cost)
+      ),
+    consumeGcra: (key, emissionIntervalMs, burst, now, cost) =>
+      updateStoreValue(store, key, (entry: Parameters<typeof decideGcra>[0]) =>
+        decideGcra(entry, { emissionIntervalMs, burst }, now, cost)
+      ),
+  };
+}
+
+function runOperation<Op extends StoreOperation>(
+  operations: ClusterOperations,
+  op: Op,
+  args: OperationArgs<Op>
+): Promise<OperationResult<Op>> {
+  // TypeScript cannot correlate `operations[op]` with `args` for a generic `op`
+  const operation = operations[op] as (
+    ...args: OperationArgs<Op>
+  ) => Promise<OperationResult<Op>>;
+  return operation(...args);
+}
+
+type OperationRequest = { id: number; op: StoreOperation; args: unknown[] };
+type OperationResponse = { id: number; result?: unknown; error?: string };
+
+type RequestMessage = {
+  [MESSAGE_TAG]: "request";
+  client: string;
+  store: string;
+  requests: OperationRequest[];
+};
+
+type ResponseMessage = {
+  [MESSAGE_TAG]: "response";
+  client: string;
+  responses: OperationResponse[];
+};
+
+/**
+ * IPC channel between a worker and the primary. `process` fits this shape
+ * inside a cluster worker.
+ */
+export interface ClusterChannel {
+  send?(message: any): any;
+  on(event: "message", listener: (message: any) => void): any;
+  removeListener(event: "message", listener: (message: any) => void): any;
+}
+
+/**
+ * The part of `node:cluster` the primary needs.
+ */
+export interface ClusterLike {
+  on(
+    event: "message",
+    listener: (worker: { send(message: any): any }, message: any) => void
+  ): any;
+  removeListener(event: "message", listener: (...args: any[]) => void): any;
+}
+
+export interface ClusterStoreOptions {
+  /**
+   * Name of the primary-side store. Limiters using the same name share counters.
+   * Default: "default"
+   */
+  name?: string;
+
+  /**
+   * How long to wait for the primary before giving up, in milliseconds.
+   * Default: 100
+   */
+  timeoutMs?: number;
+
+  /**
+   * How long to collect operations before sending them as one message.
+   * Default: 0 (everything queued in the same tick)
+   */
+  batchIntervalMs?: number;
+
+  /**
+   * Maximum operations per message.
+   * Default: 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * What to do when the primary does not answer in time:
+   * - 'local': decide with a worker-local in-memory store (default)
+   * - 'error': reject the operation
+   *
+   * Outside a cluster worker (no `process.send`) the constructor throws
+   * unless this is set to 'local' explicitly.
+   */
+  fallback?: "local" | "error";
+
+  /**
+   * How long to stay on the local fallback before trying the primary again.
+   * Default: 1000
+   */
+  recoveryIntervalMs?: number;
+
+  /**
+   * Settings for the local fallback store.
+   */
+  limiterConfig?: RateLimiterConfig;
+
+  /**
+   * IPC channel to the primary. Default: `process`.
+   */
+  channel?: ClusterChannel;
+}
+
+type PendingOperation = {
+  request: OperationRequest;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+let clientCounter = 0;
+
+/**
+ * Store for cluster workers: every operation is forwarded over IPC to the
+ * primary, which holds the authoritative in-memory store, so all workers
+ * share one budget. The built-in strategies send each decision as a single
+ * operation, and operations queued in the same tick travel together.
+ */
+export class ClusterStore implements RateLimitStore {
+  private name: string;
+  private timeoutMs: number;
+  private batchIntervalMs: number;
+  private maxBatchSize: number;
+  private fallback: "local" | "error";
+  private recoveryIntervalMs: number;
+  private channel: ClusterChannel | undefined;
+  private clientId = `${process.pid}:${++clientCounter}`;
+  private nextId = 0;
+  private queue: PendingOperation[] = [];
+  private inFlight = new Map<number, PendingOperation>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private localStore: MemoryStore;
+  private localOperations: ClusterOperations;
+  private degradedUntil = 0;
+  private onMessage = (message: any) => this.handleResponse(message);
+
+  constructor(options: ClusterStoreOptions = {}) {
+    this.name = options.name || "default";
+    this.timeoutMs = options.timeoutMs ?? 100;
+    this.batchIntervalMs = options.batchIntervalMs ?? 0;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.fallback = options.fallback || "local";
+    this.recoveryIntervalMs = options.recoveryIntervalMs ?? 1000;
+    this.localStore = new MemoryStore(options.limiterConfig);
+    this.localOperations = operationsOf(this.localStore);
+    this.channel = options.channel || (process as ClusterChannel);
+    if (typeof this.channel.send !== "function") {
+      if (options.fallback !== "local") {
+        this.localStore.stopGC();
+        throw new Error(
+          'ClusterStore must run inside a cluster worker (set fallback: "local" to decide locally)'
+        );
+      }
+      // Not a worker: every decision is local
+      this.channel = undefined;
+      return;
+    }
+    this.channel.on("message", this.onMessage);
+  }
+
+  /**
+   * True while decisions are made locally because the primary timed out.
+   */
+  get isDegraded(): boolean {
+    return !this.channel || Date.now() < this.degradedUntil;
+  }
+
+  get<T = any>(key: string): Promise<T | undefined> {
+    return this.execute("get", [key]) as Promise<T | undefined>;
+  }
+
+  set<T = any>(key: string, value: T, ttlMs?: number): Promise<void> {
+    return this.execute("set", [key, value, ttlMs]);
+  }
+
+  increment(key: string, amount = 1, ttlMs?: number): Promise<number> {
+    return this.execute("increment", [key, amount, ttlMs]);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.execute("delete", [key]);
+  }
+
+  compareAndSet<T = any>(
+    key: string,
+    expected: T | undefined,
+    value: T,
+    ttlMs?: number
+  ): Promise<boolean> {
+    return this.execute("compareAndSet", [key, expected, value, ttlMs]);
+  }
+
+  clear(): Promise<void> {
+    return this.execute("clear", []);
+  }
+
+  entries(prefix?: string): Promise<StoreEntry[]> {
+    return this.execute("entries", [prefix]);
+  }
+
+  consumeFixedWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult> {
+    return this.execute("consumeFixedWindow", [
+      key,
+      limit,
+      windowMs,
+      now,
+      cost,
+    ]);
+  }
+
+  consumeSlidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult> {
+    return this.execute("consumeSlidingWindow", [
+      key,
+      limit,
+      windowMs,
+      now,
+      cost,
+    ]);
+  }
+
+  consumeTokenBucket(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult> {
+    return this.execute("consumeTokenBucket", [
+      key,
+      capacity,
+      windowMs,
+      now,
+      cost,
+    ]);
+  }
+
+  consumeSlidingCounter(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult> {
+    return this.execute("consumeSlidingCounter", [
+      key,
+      limit,
+      windowMs,
+      now,
+      cost,
+    ]);
+  }
+
+  consumeGcra(
+    key: string,
+    emissionIntervalMs: number,
+    burst: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult> {
+    return this.execute("consumeGcra", [
+      key,
+      emissionIntervalMs,
+      burst,
+      now,
+      cost,
+    ]);
+  }
+
+  /**
+   * Stops listening for replies and releases the local fallback store.
+   */
+  close(): void {
+    this.channel?.removeListener("message", this.onMessage);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.localStore.stopGC();
+  }
+
+  private execute<Op extends StoreOperation>(
+    op: Op,
+    args: OperationArgs<Op>
+  ): Promise<OperationResult<Op>> {
+    if (this.isDegraded) {
+      return runOperation(this.localOperations, op, args);
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        request: { id: ++this.nextId, op, args },
+        // The primary answered the same operation
+        resolve: (value) => resolve(value as OperationResult<Op>),
+        reject,
+      });
+      if (this.queue.length >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), this.batchIntervalMs);
+        this.flushTimer.unref?.();
+      }
+    });
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    if (batch.length === 0) return;
+    for (const pending of batch) {
+      this.inFlight.set(pending.request.id, pending);
+    }
+    const message: RequestMessage = {
+      [MESSAGE_TAG]: "request",
+      client: this.clientId,
+      store: this.name,
+      requests: batch.map((pending) => pending.request),
+    };
+    try {
+      this.channel!.send!(message);
+    } catch (error) {
+      this.failBatch(batch, error as Error);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.failBatch(
+        batch,
+        new Error(`Cluster primary did not respond within ${this.timeoutMs}ms`)
+      );
+    }, this.timeoutMs);
+    timer.unref?.();
+    if (this.queue.length > 0) this.flush();
+  }
+
+  private failBatch(batch: PendingOperation[], error: Error): void {
+    const unanswered = batch.filter((pending) =>
+      this.inFlight.delete(pending.request.id)
+    );
+    if (unanswered.length === 0) return;
+    if (this.fallback === "error") {
+      unanswered.forEach((pending) => pending.reject(error));
+      return;
+    }
+    this.degradedUntil = Date.now() + this.recoveryIntervalMs;
+    for (const { request, resolve, reject } of unanswered) {
+      runOperation(
+        this.localOperations,
+        request.op,
+        request.args as OperationArgs<StoreOperation>
+      ).then(resolve, reject);
+    }
+  }
+
+  private handleResponse(message: any): void {
+    if (
+      message?.[MESSAGE_TAG] !== "response" ||
+      message.client !== this.clientId
+    ) {
+      return;
+    }
+    for (const response of (message as ResponseMessage).responses) {
+      const pending = this.inFlight.get(response.id);
+      if (!pending) continue; // Timed out and already answered locally
+      this.inFlight.delete(response.id);
+      if (response.error) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    }
+  }
+}
+
+export interface ClusterStorePrimaryOptions {
+  /**
+   * The `node:cluster` module (or anything emitting its "message" events).
+   */
+  cluster: ClusterLike;
+
+  /**
+   * Settings for the authoritative in-memory stores.
+   */
+  limiterConfig?: RateLimiterConfig;
+}
+
+/**
+ * Runs in the cluster primary and answers ClusterStore requests from every
+ * worker against one in-memory store per store name.
+ */
+export class ClusterStorePrimary {
+  private cluster: ClusterLike;
+  private limiterConfig: RateLimiterConfig;
+  private stores = new Map<string, MemoryStore>();
+  private onMessage = (worker: { send(message: any): any }, message: any) => {
+    if (message?.[MESSAGE_TAG] !== "request") return;
+    this.handleRequest(worker, message as RequestMessage);
+  };
+
+  constructor(options: ClusterStorePrimaryOptions) {
+    if (!options?.cluster || typeof options.cluster.on !== "function") {
+      throw new Error("ClusterStorePrimary requires the cluster module");
+    }
+    this.cluster = options.cluster;
+    this.limiterConfig = options.limiterConfig || {};
+    this.cluster.on("message", this.onMessage);
+  }
+
+  /**
+   * Returns the authoritative store for `name`, creating it on first use.
+   */
+  getStore(name = "default"): MemoryStore {
+    let store = this.stores.get(name);
+    if (!store) {
+      store = new MemoryStore(this.limiterConfig);
+      this.stores.set(name, store);
+    }
+    return store;
+  }
+
+  /**
+   * Stops answering workers and releases every store.
+   */
+  close(): void {
+    this.cluster.removeListener("message", this.onMessage);
+    for (const store of this.stores.values()) store.stopGC();
+    this.stores.clear();
+  }
+
+  private async handleRequest(
+    worker: { send(message: any): any },
+    message: RequestMessage
+  ): Promise<void> {
+    const operations = operationsOf(this.getStore(message.store));
+    const responses: OperationResponse[] = [];
+    // Run in order so a batch behaves exactly like the same calls made locally
+    for (const { id, op, args } of message.requests) {
+      try {
+        if (!OPERATIONS.includes(op)) {
+          throw new Error(`Unknown store operation: ${op}`);
+        }
+        // JSON IPC turns undefined arguments into null; stored values are never null
+        const result = await runOperation(
+          operations,
+          op,
+          args.map((arg) =>
+            arg === null ? undefined : arg
+          ) as OperationArgs<StoreOperation>
+        );
+        responses.push({ id, result });
+      } catch (error) {
+        responses.push({ id, error: (error as Error).message });
+      }
+    }
+    const response: ResponseMessage = {
+      [MESSAGE_TAG]: "response",
+      client: message.client,
+      responses,
+    };
+    try {
+      worker.send(response);
+    } catch {
+      // Worker exited before the reply; nothing to deliver
+    }
+  }
+}
@@ -0,0 +1,364 @@
+import {
+  LimiterConfig,
+  RateLimiterConfig,
+  RateLimitStore,
+  StoreEntry,
+} from "../types";
+
+/**
+ * A record to track an individual key's value, expiration, and LRU node.
+ */
+type MemoryStoreEntry = {
+  value: any;
+  expiresAt: number;
+  lruNode: LruNode;
+};
+
+/**
+ * A node in the expiry min-heap.
+ */
+type HeapNode = {
+  key: string;
+  expiresAt: number;
+};
+
+/**
+ * A node in the LRU doubly-linked list.
+ */
+type LruNode = {
+  key: string;
+  prev: LruNode | null;
+  next: LruNode | null;
+};
+
+/**
+ * Returns true if two stored values are the same, by reference or by content.
+ */
+function isSameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === undefined || b === undefined) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Named stores shared between limiters that opt in with `sharedStore`.
+ */
+const sharedStores = new Map<string, MemoryStore>();
+
+/**
+ * In-memory store used by default for every strategy.
+ * Uses a min-heap for expirations, an LRU list for memory capping, and
+ * hybrid cleanup (on-demand + periodic) to handle millions of keys.
+ */
+export class MemoryStore implements RateLimitStore {
+  private records = new Map<string, MemoryStoreEntry>();
+  private heap: HeapNode[] = []; // Min-heap for expirations
+  private lruHead: LruNode | null = null; // LRU list head
+  private lruTail: LruNode | null = null; // LRU list tail
+  private callCount = 0;
+  private gcInterval: NodeJS.Timeout | null = null;
+  private maxStoreSize: number;
+  private cleanupInterval: number;
+  private maxBatchCleanup: number;
+
+  constructor(
+    config: RateLimiterConfig = {},
+    private now: () => number = Date.now
+  ) {
+    this.maxStoreSize = config.maxStoreSize || 1000000;
+    this.cleanupInterval = config.cleanupInterval || 1000;
+    this.maxBatchCleanup = config.maxBatchCleanup || 1000;
+    this.startGC();
+  }
+
+  /**
+   * Returns the in-memory store registered under `name`, creating it with
+   * `config` on first use.
+   */
+  static shared(name: string, config: RateLimiterConfig = {}): MemoryStore {
+    let store = sharedStores.get(name);
+    if (!store) {
+      store = new MemoryStore(config);
+      sharedStores.set(name, store);
+    }
+    return store;
+  }
+
+  /**
+   * Number of keys currently held, including expired keys not yet swept.
+   */
+  get size(): number {
+    return this.records.size;
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const currentTime = this.now();
+    this.maintain(currentTime);
+    const entry = this.lookup(key, currentTime);
+    return entry ? entry.value : undefined;
+  }
+
+  async set<T = any>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const currentTime = this.now();
+    this.maintain(currentTime);
+    this.write(key, value, ttlMs, currentTime);
+  }
+
+  async increment(key: string, amount = 1, ttlMs?: number): Promise<number> {
+    const currentTime = this.now();
+    this.maintain(currentTime);
+    const entry = this.lookup(key, currentTime);
+    if (!entry) {
+      this.write(key, amount, ttlMs, currentTime);
+      return amount;
+    }
+    entry.value = (Number(entry.value) || 0) + amount;
+    return entry.value;
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.records.get(key);
+    if (entry) this.removeEntry(key, entry);
+  }
+
+  async compareAndSet<T = any>(
+    key: string,
+    expected: T | undefined,
+    value: T,
+    ttlMs?: number
+  ): Promise<boolean> {
+    const currentTime = this.now();
+    this.maintain(currentTime);
+    const entry = this.lookup(key, currentTime);
+    if (!isSameValue(entry?.value, expected)) return false;
+    this.write(key, value, ttlMs, currentTime);
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.heap.length = 0;
+    this.callCount = 0;
+    this.lruHead = null;
+    this.lruTail = null;
+  }
+
+  async entries(prefix = ""): Promise<StoreEntry[]> {
+    const currentTime = this.now();
+    const result: StoreEntry[] = [];
+    for (const [key, entry] of this.records) {
+      if (entry.expiresAt <= currentTime || !key.startsWith(prefix)) continue;
+      result.push({
+        key,
+        value: entry.value,
+        expiresAt: entry.expiresAt === Infinity ? null : entry.expiresAt,
+      });
+    }
+    return result;
+  }
+
+  stopGC() {
+    if (this.gcInterval) clearInterval(this.gcInterval);
+    this.gcInterval = null;
+  }
+
+  private startGC() {
+    if (this.gcInterval) return;
+    this.gcInterval = setInterval(() => {
+      this.sweepExpiredKeys(this.now());
+      // Enforce maxStoreSize
+      while (this.records.size > this.maxStoreSize) {
+        this.removeLruTail();
+      }
+    }, 30000); // 30 seconds
+    this.gcInterval.unref?.();
+  }
+
+  /**
+   * Returns the live entry for `key`, dropping it if it has expired.
+   */
+  private lookup(key: string, currentTime: number): MemoryStoreEntry | null {
+    const entry = this.records.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= currentTime) {
+      this.removeEntry(key, entry);
+      return null;
+    }
+    this.moveToFront(entry.lruNode);
+    return entry;
+  }
+
+  private write(
+    key: string,
+    value: any,
+    ttlMs: number | undefined,
+    currentTime: number
+  ): void {
+    const expiresAt =
+      ttlMs !== undefined && Number.isFinite(ttlMs)
+        ? currentTime + Math.max(0, ttlMs)
+        : Infinity;
+    let entry = this.records.get(key);
+    if (entry) {
+      this.moveToFront(entry.lruNode);
+      entry.value = value;
+      if (entry.expiresAt === expiresAt) return;
+      entry.expiresAt = expiresAt;
+    } else {
+      // Enforce memory cap
+      while (this.records.size >= this.maxStoreSize) {
+        this.removeLruTail();
+      }
+      entry = { value, expiresAt, lruNode: this.addLruNode(key) };
+      this.records.set(key, entry);
+    }
+    if (expiresAt !== Infinity) this.heapPush({ key, expiresAt });
+  }
+
+  /**
+   * Runs the on-demand sweep on every call and compacts the heap every
+   * `cleanupInterval` calls, dropping nodes superseded by a newer expiry.
+   */
+  private maintain(currentTime: number): void {
+    this.callCount++;
+    this.sweepExpiredKeys(currentTime);
+    if (
+      this.callCount % this.cleanupInterval === 0 &&
+      this.heap.length > this.records.size * 2
+    ) {
+      const live = this.heap.filter(
+        (node) => this.records.get(node.key)?.expiresAt === node.expiresAt
+      );
+      this.heap.length = 0;
+      for (const node of live) this.heapPush(node);
+    }
+  }
+
+  private sweepExpiredKeys(currentTime: number): void {
+    let cleaned = 0;
+    while (
+      this.heap.length > 0 &&
+      this.heap[0].expiresAt <= currentTime &&
+      cleaned < this.maxBatchCleanup
+    ) {
+      const expired = this.heapPop()!;
+      const current = this.records.get(expired.key);
+      if (current && current.expiresAt === expired.expiresAt) {
+        this.removeEntry(expired.key, current);
+      }
+      cleaned++;
+    }
+  }
+
+  private removeEntry(key: string, entry: MemoryStoreEntry): void {
+    const node = entry.lruNode;
+    if (node.prev) node.prev.next = node.next;
+    if (node.next) node.next.prev = node.prev;
+    if (node === this.lruHead) this.lruHead = node.next;
+    if (node === this.lruTail) this.lruTail = node.prev;
+    this.records.delete(key);
+  }
+
+  /**
+   * Min-heap operations for expiry queue.
+   */
+  private heapPush(node: HeapNode): void {
+    const heap = this.heap;
+    heap.push(node);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = Math.floor((i - 1) / 2);
+      if (heap[parent].expiresAt <= node.expiresAt) break;
+      heap[i] = heap[parent];
+      i = parent;
+    }
+    heap[i] = node;
+  }
+
+  private heapPop(): HeapNode | undefined {
+    const heap = this.heap;
+    if (heap.length === 0) return undefined;
+    const result = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = 2 * i + 2;
+        let smallest = i;
+        if (
+          left < heap.length &&
+          heap[left].expiresAt < heap[smallest].expiresAt
+        ) {
+          smallest = left;
+        }
+        if (
+          right < heap.length &&
+          heap[right].expiresAt < heap[smallest].expiresAt
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * LRU operations for memory capping.
+   */
+  private addLruNode(key: string): LruNode {
+    const node: LruNode = { key, prev: null, next: this.lruHead };
+    if (this.lruHead) this.lruHead.prev = node;
+    this.lruHead = node;
+    if (!this.lruTail) this.lruTail = node;
+    return node;
+  }
+
+  private moveToFront(node: LruNode): void {
+    if (node === this.lruHead) return;
+    if (node.prev) node.prev.next = node.next;
+    if (node.next) node.next.prev = node.prev;
+    if (node === this.lruTail) this.lruTail = node.prev;
+    node.next = this.lruHead;
+    node.prev = null;
+    if (this.lruHead) this.lruHead.prev = node;
+    this.lruHead = node;
+    if (!this.lruTail) this.lruTail = node;
+  }
+
+  private removeLruTail(): void {
+    if (!this.lruTail) return;
+    this.records.delete(this.lruTail.key);
+    if (this.lruTail.prev) {
+      this.lruTail.prev.next = null;
+      this.lruTail = this.lruTail.prev;
+    } else {
+      this.lruHead = null;
+      this.lruTail = null;
+    }
+  }
+}
+
+/**
+ * Picks the store a strategy should use: the configured `store`, a named
+ * shared store, or a private in-memory store owned by the strategy.
+ */
+export function resolveStore(config: Partial<LimiterConfig>): {
+  store: RateLimitStore;
+  owned: boolean;
+} {
+  if (config.store) {
+    return { store: config.store, owned: false };
+  }
+  if (config.sharedStore) {
+    return {
+      store: MemoryStore.shared(config.sharedStore, config.limiterConfig),
+      owned: false,
+    };
+  }
+  return { store: new MemoryStore(config.limiterConfig), owned: true };
+}
@@ -0,0 +1,267 @@
+import { ConsumeResult, RateLimitStore } from "../types";
+import {
+  COMPARE_AND_SET_SCRIPT,
+  DELETE_SCRIPT,
+  FIXED_WINDOW_SCRIPT,
+  GCRA_SCRIPT,
+  GET_SCRIPT,
+  INCREMENT_SCRIPT,
+  SCAN_SCRIPT,
+  SET_SCRIPT,
+  SLIDING_COUNTER_SCRIPT,
+  SLIDING_WINDOW_SCRIPT,
+  TOKEN_BUCKET_SCRIPT,
+} from "./redisScripts";
+
+/**
+ * The part of a Redis client RedisStore needs. Both ioredis
+ * (`eval(script, numKeys, ...keysAndArgs)`) and node-redis v4+
+ * (`eval(script, { keys, arguments })`) clients fit this shape.
+ */
+export interface RedisClientLike {
+  eval(...args: any[]): Promise<any>;
+}
+
+export interface RedisStoreOptions {
+  /**
+   * Connected ioredis or node-redis client. The store never connects or quits it.
+   */
+  client: RedisClientLike;
+
+  /**
+   * Prefix for every key written to Redis.
+   * Default: "zenin:"
+   */
+  prefix?: string;
+
+  /**
+   * Clock the built-in algorithms read: the Redis server's ("server"), so
+   * processes with skewed clocks agree on windows, or the `now` passed by
+   * the caller ("client").
+   * Default: "server"
+   */
+  clock?: "server" | "client";
+}
+
+/** Keys scanned and deleted per round trip by `clear`. */
+const CLEAR_BATCH_SIZE = 100;
+
+function toTtlArg(ttlMs?: number): string {
+  if (ttlMs === undefined || !Number.isFinite(ttlMs)) return "";
+  return String(Math.max(1, Math.ceil(ttlMs)));
+}
+
+function toConsumeResult(reply: any[]): ConsumeResult {
+  const result: ConsumeResult = {
+    allowed: Number(reply[0]) === 1,
+    remaining: Number(reply[1]),
+    resetAt: Number(reply[2]),
+  };
+  if (reply.length > 3) result.retryAfterMs = Number(reply[3]);
+  return result;
+}
+
+/**
+ * Redis-backed store shared by every process pointing at the same server.
+ * All operations, including the built-in algorithms, run as Lua scripts so
+ * each decision is a single atomic round trip.
+ */
+export class RedisStore implements RateLimitStore {
+  private client: RedisClientLike;
+  private prefix: string;
+  private isNodeRedis: boolean;
+  private clock: "server" | "client";
+  // Raw strings behind values returned by `get`, so compareAndSet can match them exactly
+  private rawValues = new WeakMap<object, string>();
+
+  constructor(options: RedisStoreOptions) {
+    if (!options?.client || typeof options.client.eval !== "function") {
+      throw new Error("RedisStore requires a Redis client with eval()");
+    }
+    this.client = options.client;
+    this.prefix = options.prefix ?? "zenin:";
+    this.clock = options.clock ?? "server";
+    if (this.clock !== "server" && this.clock !== "client") {
+      throw new Error(`Invalid clock: ${this.clock} (use server or client)`);
+    }
+    // node-redis clients expose `isOpen`, ioredis clients do not
+    this.isNodeRedis = "isOpen" in options.client;
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const raw = await this.run(GET_SCRIPT, [key], []);
+    if (typeof raw !== "string") return undefined;
+    const value = JSON.parse(raw);
+    if (value !== null && typeof value === "object") {
+      this.rawValues.set(value, raw);
+    }
+    return value;
+  }
+
+  async set<T = any>(key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.run(SET_SCRIPT, [key], [JSON.stringify(value), toTtlArg(ttlMs)]);
+  }
+
+  async increment(key: string, amount = 1, ttlMs?: number): Promise<number> {
+    const value = await this.run(
+      INCREMENT_SCRIPT,
+      [key],
+      [String(amount), toTtlArg(ttlMs)]
+    );
+    return Number(value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run(DELETE_SCRIPT, [key], []);
+  }
+
+  async compareAndSet<T = any>(
+    key: string,
+    expected: T | undefined,
+    value: T,
+    ttlMs?: number
+  ): Promise<boolean> {
+    let expectedRaw = "";
+    if (expected !== undefined) {
+      const raw =
+        typeof expected === "object" && expected !== null
+          ? this.rawValues.get(expected)
+          : undefined;
+      expectedRaw = raw ?? JSON.stringify(expected);
+    }
+    const written = await this.run(
+      COMPARE_AND_SET_SCRIPT,
+      [key],
+      [
+        expected === undefined ? "0" : "1",
+        expectedRaw,
+        JSON.stringify(value),
+        toTtlArg(ttlMs),
+      ]
+    );
+    return Number(written) === 1;
+  }
+
+  /**
+   * Deletes every key under the prefix. Keys are found with SCAN, in batches,
+   * so the server is never blocked for long.
+   */
+  async clear(): Promise<void> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch]: [string, string[]] = await this.run(
+        SCAN_SCRIPT,
+        [],
+        [cursor, `${this.prefix}*`, String(CLEAR_BATCH_SIZE)]
+      );
+      // `run` adds the prefix back
+      keys.push(...batch.map((key) => key.slice(this.prefix.length)));
+      cursor = String(next);
+    } while (cursor !== "0");
+    for (let i = 0; i < keys.length; i += CLEAR_BATCH_SIZE) {
+      await this.run(DELETE_SCRIPT, keys.slice(i, i + CLEAR_BATCH_SIZE), []);
+    }
+  }
+
+  async consumeFixedWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost = 1
+  ): Promise<ConsumeResult> {
+    const reply = await this.run(
+      FIXED_WINDOW_SCRIPT,
+      [key],
+      [String(limit), String(windowMs), this.timeArg(now), String(cost)]
+    );
+    return toConsumeResult(reply);
+  }
+
+  async consumeSlidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost = 1
+  ): Promise<ConsumeResult> {
+    const reply = await this.run(
+      SLIDING_WINDOW_SCRIPT,
+      [key],
+      [String(limit), String(windowMs), this.timeArg(now), String(cost)]
+    );
+    return toConsumeResult(reply);
+  }
+
+  async consumeTokenBucket(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number,
+    cost = 1
+  ): Promise<ConsumeResult> {
+    const reply = await this.run(
+      TOKEN_BUCKET_SCRIPT,
+      [key],
+      [String(capacity), String(windowMs), this.timeArg(now), String(cost)]
+    );
+    return toConsumeResult(reply);
+  }
+
+  async consumeSlidingCounter(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost = 1
+  ): Promise<ConsumeResult> {
+    const reply = await this.run(
+      SLIDING_COUNTER_SCRIPT,
+      [key],
+      [String(limit), String(windowMs), this.timeArg(now), String(cost)]
+    );
+    return toConsumeResult(reply);
+  }
+
+  async consumeGcra(
+    key: string,
+    emissionIntervalMs: number,
+    burst: number,
+    now: number,
+    cost = 1
+  ): Promise<ConsumeResult> {
+    const reply = await this.run(
+      GCRA_SCRIPT,
+      [key],
+      [
+        String(emissionIntervalMs),
+        String(burst),
+        this.timeArg(now),
+        String(cost),
+      ]
+    );
+    return toConsumeResult(reply);
+  }
+
+  /** `now` for the scripts; empty to use the server's TIME. */
+  private timeArg(now: number): string {
+    return this.clock === "client" ? String(now) : "";
+  }
+
+  private run(script: string, keys: string[], args: string[]): Promise<any> {
+    const prefixedKeys = keys.map((key) => this.prefix + key);
+    if (this.isNodeRedis) {
+      return this.client.eval(script, {
+        keys: prefixedKeys,
+        arguments: args,
+      });
+    }
+    return this.client.eval(
+      script,
+      prefixedKeys.length,
+      ...prefixedKeys,
+      ...args
+    );
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Lua scripts run by RedisStore. Every value is stored as the same JSON
+ * string the strategies write through the generic store API, so state written
+ * by a script can be read back with `get` and vice versa. The scripts encode
+ * and decode that JSON by hand because `cjson` is not available everywhere.
+ */
+
+const HELPERS = `
+-- Redis before 5.0 only replicates scripts that read TIME by their effects
+if redis.replicate_commands then redis.replicate_commands() end
+local function fmt(n) return string.format('%.17g', n) end
+local function field(raw, name)
+  return tonumber(string.match(raw, '"' .. name .. '":([^,}]+)'))
+end
+local function px(ms) return math.max(1, math.ceil(ms)) end
+-- The Redis server's clock, unless the client passed its own time
+local function clock(arg)
+  if arg ~= '' then return tonumber(arg) end
+  local time = redis.call('TIME')
+  return tonumber(time[1]) * 1000.0 + math.floor(tonumber(time[2]) / 1000)
+end
+`;
+
+/**
+ * KEYS[1] key; returns the raw value or nil.
+ */
+export const GET_SCRIPT = `return redis.call('GET', KEYS[1])`;
+
+/**
+ * KEYS[1] key; ARGV[1] value, ARGV[2] ttl in ms or ''.
+ */
+export const SET_SCRIPT = `
+if ARGV[2] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+else
+  redis.call('SET', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] amount, ARGV[2] ttl in ms or '' (applied on creation).
+ */
+export const INCREMENT_SCRIPT = `
+local existed = redis.call('EXISTS', KEYS[1])
+local value = redis.call('INCRBYFLOAT', KEYS[1], ARGV[1])
+if existed == 0 and ARGV[2] ~= '' then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return value
+`;
+
+/**
+ * KEYS[1..n] keys. Returns the number of deleted keys.
+ */
+export const DELETE_SCRIPT = `
+local deleted = 0
+for i = 1, #KEYS do
+  deleted = deleted + redis.call('DEL', KEYS[i])
+end
+return deleted
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] '1' if a value is expected, ARGV[2] expected raw value,
+ * ARGV[3] new value, ARGV[4] ttl in ms or ''. Returns 1 if written.
+ */
+export const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current ~= ARGV[2] then return 0 end
+elseif current then
+  return 0
+end
+if ARGV[4] ~= '' then
+  redis.call('SET', KEYS[1], ARGV[3], 'PX', ARGV[4])
+else
+  redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
+`;
+
+/**
+ * ARGV[1] SCAN cursor, ARGV[2] match pattern, ARGV[3] batch size. Returns
+ * {next cursor, keys}; the cursor is '0' once the scan is complete.
+ */
+export const SCAN_SCRIPT = `
+return redis.call('SCAN', ARGV[1], 'MATCH', ARGV[2], 'COUNT', ARGV[3])
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] limit, ARGV[2] window in ms, ARGV[3] now in ms or '' for the server's time, ARGV[4] cost.
+ * Value: {"count":n,"resetAt":ms}. Returns {allowed, remaining, resetAt}.
+ */
+export const FIXED_WINDOW_SCRIPT = `${HELPERS}
+local limit = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local now = clock(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+local count = 0
+local resetAt = now + windowMs
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  local storedResetAt = field(raw, 'resetAt')
+  if storedResetAt > now then
+    count = field(raw, 'count')
+    resetAt = storedResetAt
+  end
+end
+if count + cost <= limit then
+  count = count + cost
+  redis.call('SET', KEYS[1],
+    '{"count":' .. fmt(count) .. ',"resetAt":' .. fmt(resetAt) .. '}',
+    'PX', px(resetAt - now))
+  return {1, fmt(limit - count), fmt(resetAt)}
+end
+return {0, fmt(math.max(0, limit - count)), fmt(resetAt)}
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] limit, ARGV[2] window in ms, ARGV[3] now in ms or '' for the server's time, ARGV[4] cost.
+ * Value: {"timestamps":[ms,...]}. Returns {allowed, remaining, resetAt[, retryAfterMs]}.
+ */
+export const SLIDING_WINDOW_SCRIPT = `${HELPERS}
+local limit = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local now = clock(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+local windowStart = now - windowMs
+local timestamps = {}
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  local list = string.match(raw, '%[(.*)%]')
+  if list then
+    for item in string.gmatch(list, '[^,]+') do
+      local timestamp = tonumber(item)
+      if timestamp > windowStart then
+        timestamps[#timestamps + 1] = timestamp
+      end
+    end
+  end
+end
+if #timestamps + cost <= limit then
+  for _ = 1, cost do timestamps[#timestamps + 1] = now end
+  local parts = {}
+  for i, timestamp in ipairs(timestamps) do parts[i] = fmt(timestamp) end
+  redis.call('SET', KEYS[1],
+    '{"timestamps":[' .. table.concat(parts, ',') .. ']}',
+    'PX', px(windowMs))
+  return {1, fmt(limit - #timestamps), fmt((timestamps[1] or now) + windowMs)}
+end
+local expiring = #timestamps + cost - limit
+local retryAfter = windowMs
+if expiring <= #timestamps then
+  retryAfter = timestamps[expiring] + windowMs - now
+end
+return {0, fmt(math.max(0, limit - #timestamps)),
+  fmt((timestamps[1] or now) + windowMs), fmt(retryAfter)}
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] capacity, ARGV[2] window in ms (full refill), ARGV[3] now in ms or '' for the server's time,
+ * ARGV[4] cost.
+ * Value: {"tokens":n,"lastRefill":ms}. Returns {allowed, remaining, resetAt[, retryAfterMs]}.
+ */
+export const TOKEN_BUCKET_SCRIPT = `${HELPERS}
+local capacity = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local now = clock(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+local refillRate = capacity / windowMs
+local tokens = capacity
+local lastRefill = now
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  tokens = field(raw, 'tokens')
+  lastRefill = field(raw, 'lastRefill')
+end
+-- A caller's clock may be behind the one that last refilled the bucket;
+-- keeping the later time means no interval is credited twice
+tokens = math.min(capacity, tokens + math.max(0, now - lastRefill) * refillRate)
+if tokens >= cost then
+  tokens = tokens - cost
+  redis.call('SET', KEYS[1],
+    '{"tokens":' .. fmt(tokens) .. ',"lastRefill":' .. fmt(math.max(lastRefill, now)) .. '}',
+    'PX', px(windowMs))
+  return {1, fmt(math.floor(tokens)), fmt(now + (capacity - tokens) / refillRate)}
+end
+return {0, fmt(math.floor(tokens)), fmt(now + (capacity - tokens) / refillRate),
+  fmt((cost - tokens) / refillRate)}
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] limit, ARGV[2] window in ms, ARGV[3] now in ms or '' for the server's time, ARGV[4] cost.
+ * Value: {"windowStart":ms,"current":n,"previous":n}. Returns {allowed, remaining, resetAt}.
+ */
+export const SLIDING_COUNTER_SCRIPT = `${HELPERS}
+local limit = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local now = clock(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+-- fmod keeps this in floating point; some Lua builds have 32-bit integers
+local windowStart = now - math.fmod(now, windowMs)
+local current = 0
+local previous = 0
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  local storedStart = field(raw, 'windowStart')
+  if storedStart == windowStart then
+    current = field(raw, 'current')
+    previous = field(raw, 'previous')
+  elseif storedStart == windowStart - windowMs then
+    previous = field(raw, 'current')
+  end
+end
+local function estimate(count)
+  return previous * (1 - (now - windowStart) / windowMs) + count
+end
+local function summarize(count)
+  local estimated = estimate(count)
+  if estimated <= 0 then return limit, now + windowMs end
+  local remaining = math.max(0, math.floor(limit - estimated))
+  local target = limit - remaining - 1
+  if previous > 0 and count <= target then
+    return remaining, math.max(now,
+      windowStart + windowMs * (1 - (target - count) / previous))
+  end
+  if count > 0 then
+    return remaining, windowStart + windowMs + windowMs * (1 - math.max(0, target) / count)
+  end
+  return remaining, windowStart + windowMs
+end
+if estimate(current) + cost > limit then
+  local remaining, resetAt = summarize(current)
+  return {0, fmt(remaining), fmt(resetAt)}
+end
+current = current + cost
+redis.call('SET', KEYS[1],
+  '{"windowStart":' .. fmt(windowStart) .. ',"current":' .. fmt(current) ..
+  ',"previous":' .. fmt(previous) .. '}',
+  'PX', px(windowStart + 2 * windowMs - now))
+local remaining, resetAt = summarize(current)
+return {1, fmt(remaining), fmt(resetAt)}
+`;
+
+/**
+ * KEYS[1] key; ARGV[1] emission interval in ms, ARGV[2] burst, ARGV[3] now in ms or '' for the server's time,
+ * ARGV[4] cost.
+ * Value: {"tat":ms}. Returns {allowed, remaining, resetAt, retryAfterMs}.
+ */
+export const GCRA_SCRIPT = `${HELPERS}
+local interval = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local now = clock(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+local epsilon = 1e-6
+local tat = now
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  tat = math.max(field(raw, 'tat'), now)
+end
+local function remainingAt(arrival)
+  local remaining = math.floor((interval * burst - (arrival - now) + epsilon) / interval)
+  return math.max(0, math.min(burst, remaining))
+end
+local overshoot = tat - now + cost * interval - interval * burst
+if overshoot > epsilon then
+  return {0, fmt(remainingAt(tat)), fmt(tat), fmt(overshoot)}
+end
+tat = tat + cost * interval
+redis.call('SET', KEYS[1], '{"tat":' .. fmt(tat) .. '}', 'PX', px(tat - now))
+return {1, fmt(remainingAt(tat)), fmt(tat), '0'}
+`;
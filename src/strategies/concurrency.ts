@@ -0,0 +1,225 @@
+import {
+  ConsumeResult,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import { createKeyedLock, updateStoreValue } from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
+
+type Lease = {
+  id: string;
+  expiresAt: number;
+  units?: number; // Slots held by this lease (default: 1)
+};
+
+type ConcurrencyData = {
+  /** Active leases, oldest first. */
+  leases: Lease[];
+};
+
+const KEY_PREFIX = "concurrency:";
+
+let leaseCounter = 0;
+
+/**
+ * A unique lease id, from Web Crypto so edge runtimes need no node:crypto.
+ * Node.js before 19 has no global `crypto`; a random, counted id is unique
+ * enough there, since ids are never taken from clients.
+ */
+function newLeaseId(): string {
+  if (globalThis.crypto?.randomUUID) return globalThis.crypto.randomUUID();
+  const random = Math.random().toString(36).slice(2);
+  return `${Date.now().toString(36)}-${random}-${++leaseCounter}`;
+}
+
+function activeLeases(entry: ConcurrencyData | undefined, now: number) {
+  return (entry?.leases || []).filter((lease) => lease.expiresAt > now);
+}
+
+function heldUnits(leases: Lease[]): number {
+  return leases.reduce((total, lease) => total + (lease.units ?? 1), 0);
+}
+
+/**
+ * Time to keep a lease list: until its last lease expires on its own.
+ */
+function leasesTtl(leases: Lease[], now: number): number {
+  if (leases.length === 0) return 1;
+  return Math.max(...leases.map((lease) => lease.expiresAt)) - now;
+}
+
+/**
+ * Limits how many requests per key are in flight at once. An allowed
+ * request holds a lease that must be handed back with `release` when it
+ * completes, by lease id or by the request object it was checked with;
+ * leases not released within `maxHoldMs` expire, so a lost release cannot
+ * lock a key out forever.
+ */
+export class ConcurrencyStrategy implements RateLimitStrategy {
+  private limit: number;
+  private maxHoldMs: number;
+  private config: any;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
+  private getLimitFn?: (req?: any) => number;
+  // Lease held by each request object, so adapters can release exactly it
+  private requestLeases = new WeakMap<object, string>();
+
+  constructor(config: any) {
+    this.config = config;
+    this.limit = config.limit;
+    this.maxHoldMs = config.concurrency?.maxHoldMs ?? 60000;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
+    this.getLimitFn =
+      typeof config.limit === "function" ? config.limit : undefined;
+  }
+
+  stopGC() {
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
+  }
+
+  private getLimit(req?: any): number {
+    if (this.getLimitFn) {
+      return this.getLimitFn(req);
+    }
+    return this.limit;
+  }
+
+  async isAllowed(key: string, req?: any): Promise<boolean> {
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Takes `cost` slots under one lease, or none if fewer are free.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const limit = this.getLimit(req);
+    const unlock = await this.acquireLock(key);
+    try {
+      const result = await this.acquire(key, limit, cost);
+      if (result.leaseId && req && typeof req === "object") {
+        this.requestLeases.set(req, result.leaseId);
+      }
+      return { ...result, limit };
+    } finally {
+      unlock();
+    }
+  }
+
+  private acquire(
+    key: string,
+    limit: number,
+    cost: number
+  ): Promise<ConsumeResult> {
+    return updateStoreValue<ConcurrencyData, ConsumeResult>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) => {
+        const now = Date.now();
+        const leases = activeLeases(entry, now);
+        const free = limit - heldUnits(leases);
+        const resetAt = leases.length > 0 ? leases[0].expiresAt : now;
+        if (cost > free) {
+          return {
+            result: { allowed: false, remaining: Math.max(0, free), resetAt },
+          };
+        }
+        const lease: Lease = {
+          id: newLeaseId(),
+          expiresAt: now + this.maxHoldMs,
+        };
+        if (cost !== 1) lease.units = cost;
+        leases.push(lease);
+        return {
+          result: {
+            allowed: true,
+            remaining: free - cost,
+            resetAt: leases[0].expiresAt,
+            leaseId: lease.id,
+          },
+          value: { leases },
+          ttlMs: leasesTtl(leases, now),
+        };
+      }
+    );
+  }
+
+  /**
+   * Ends a lease on `key`: the lease with id `lease`, or the one the request
+   * object `lease` acquired. Releasing a lease that has already ended does
+   * nothing.
+   */
+  async release(key: string, lease: string | object): Promise<void> {
+    let leaseId: string | undefined;
+    if (typeof lease === "string") {
+      leaseId = lease;
+    } else {
+      leaseId = this.requestLeases.get(lease);
+      this.requestLeases.delete(lease);
+    }
+    if (!leaseId) return;
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<ConcurrencyData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          const now = Date.now();
+          const leases = activeLeases(entry, now);
+          const index = leases.findIndex((lease) => lease.id === leaseId);
+          if (index === -1) {
+            return { result: undefined };
+          }
+          leases.splice(index, 1);
+          return {
+            result: undefined,
+            value: { leases },
+            ttlMs: leasesTtl(leases, now),
+          };
+        }
+      );
+    } finally {
+      unlock();
+    }
+  }
+
+  /**
+   * Slots are only held while a request is in flight, so refunding one is
+   * releasing its lease early. Without `req` there is no lease to end.
+   */
+  async refund(key: string, _cost = 1, req?: any): Promise<void> {
+    if (req && typeof req === "object") await this.release(key, req);
+  }
+
+  async getState(key: string, req?: any): Promise<RateLimitState> {
+    const now = Date.now();
+    const limit = this.getLimit(req);
+    const entry = await this.store.get<ConcurrencyData>(KEY_PREFIX + key);
+    const leases = activeLeases(entry, now);
+    return {
+      remaining: Math.max(0, limit - heldUnits(leases)),
+      // When the oldest lease runs out of hold time at the latest
+      resetAt: leases.length > 0 ? leases[0].expiresAt : now,
+      limit: limit,
+    };
+  }
+
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.delete(KEY_PREFIX + key);
+  }
+}
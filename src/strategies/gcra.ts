@@ -0,0 +1,232 @@
+import {
+  ConsumeResult,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import {
+  createKeyedLock,
+  StoreMutation,
+  updateStoreValue,
+} from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
+
+type GcraData = {
+  /** Theoretical arrival time: when the key's burst is fully available again. */
+  tat: number;
+};
+
+type GcraParams = {
+  emissionIntervalMs: number;
+  burst: number;
+};
+
+const KEY_PREFIX = "gcra:";
+
+// Emission intervals like 1000/3 ms are not exact; ignore the rounding noise
+const EPSILON_MS = 1e-6;
+
+/**
+ * Describes `tat` at `now`. A request costing `cost` cells fits when `tat`
+ * is at most `burst - cost` emission intervals ahead of `now`.
+ */
+function summarize(
+  tat: number,
+  { emissionIntervalMs, burst }: GcraParams,
+  now: number,
+  cost = 1
+): ConsumeResult & { retryAfterMs: number } {
+  const backlog = Math.max(tat, now) - now;
+  const tolerance = emissionIntervalMs * burst;
+  const remaining = Math.max(
+    0,
+    Math.min(
+      burst,
+      Math.floor((tolerance - backlog + EPSILON_MS) / emissionIntervalMs)
+    )
+  );
+  const overshoot = backlog + cost * emissionIntervalMs - tolerance;
+  const retryAfterMs = overshoot > EPSILON_MS ? overshoot : 0;
+  return {
+    allowed: retryAfterMs === 0,
+    remaining,
+    resetAt: Math.max(tat, now),
+    retryAfterMs,
+  };
+}
+
+/**
+ * Admits `cost` cells at `now` against a key's stored `entry`, advancing its
+ * arrival time, or none if they do not all fit in the burst. Shared by the
+ * strategy and stores that run it in one step.
+ */
+export function decideGcra(
+  entry: GcraData | undefined,
+  params: GcraParams,
+  now: number,
+  cost = 1
+): StoreMutation<GcraData, ConsumeResult> {
+  const tat = entry?.tat ?? now;
+  const current = summarize(tat, params, now, cost);
+  if (!current.allowed) {
+    return { result: current };
+  }
+  const nextTat = Math.max(tat, now) + cost * params.emissionIntervalMs;
+  const { remaining, resetAt } = summarize(nextTat, params, now);
+  return {
+    result: { allowed: true, remaining, resetAt, retryAfterMs: 0 },
+    value: { tat: nextTat },
+    // Once the arrival time has passed the key is indistinguishable from a new one
+    ttlMs: nextTat - now,
+  };
+}
+
+/**
+ * Generic cell rate algorithm: token bucket behaviour from a single
+ * timestamp per key. Each request pushes the key's theoretical arrival time
+ * forward by one emission interval; requests are rejected while it is more
+ * than the burst tolerance ahead of the clock.
+ */
+export class GcraStrategy implements RateLimitStrategy {
+  private limit: number;
+  private config: any;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
+  private getLimitFn?: (req?: any) => number;
+
+  constructor(config: any) {
+    this.config = config;
+    this.limit = config.limit;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
+    this.getLimitFn =
+      typeof config.limit === "function" ? config.limit : undefined;
+  }
+
+  stopGC() {
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
+  }
+
+  private getLimit(req?: any): number {
+    if (this.getLimitFn) {
+      return this.getLimitFn(req);
+    }
+    return this.limit;
+  }
+
+  /**
+   * Emission interval and burst for a request; both default to spreading
+   * `limit` requests evenly over the window with a burst of `limit`.
+   */
+  private getParams(limit: number): GcraParams {
+    const options = this.config.gcra || {};
+    return {
+      emissionIntervalMs:
+        options.emissionIntervalMs ??
+        (this.config.windowInSeconds * 1000) / limit,
+      burst: options.burst ?? limit,
+    };
+  }
+
+  async isAllowed(key: string, req?: any): Promise<boolean> {
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Admits `cost` requests at once (advancing the arrival time by `cost`
+   * emission intervals), or none if they do not all fit in the burst.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const params = this.getParams(this.getLimit(req));
+    const unlock = await this.acquireLock(key);
+    try {
+      const result = await this.consumeCells(key, params, cost);
+      return { ...result, limit: params.burst };
+    } finally {
+      unlock();
+    }
+  }
+
+  private consumeCells(
+    key: string,
+    params: GcraParams,
+    cost: number
+  ): Promise<ConsumeResult> {
+    if (this.store.consumeGcra) {
+      return this.store.consumeGcra(
+        KEY_PREFIX + key,
+        params.emissionIntervalMs,
+        params.burst,
+        Date.now(),
+        cost
+      );
+    }
+    return updateStoreValue<GcraData, ConsumeResult>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) => decideGcra(entry, params, Date.now(), cost)
+    );
+  }
+
+  /**
+   * Moves the arrival time back by `cost` emission intervals, but never
+   * before the current time.
+   */
+  async refund(key: string, cost = 1, req?: any): Promise<void> {
+    const { emissionIntervalMs } = this.getParams(this.getLimit(req));
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<GcraData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          const now = Date.now();
+          if (!entry || entry.tat <= now) return { result: undefined };
+          const tat = Math.max(now, entry.tat - cost * emissionIntervalMs);
+          return {
+            result: undefined,
+            value: { tat },
+            ttlMs: Math.max(1, tat - now),
+          };
+        }
+      );
+    } finally {
+      unlock();
+    }
+  }
+
+  async getState(key: string, req?: any): Promise<RateLimitState> {
+    const now = Date.now();
+    const limit = this.getLimit(req);
+    const params = this.getParams(limit);
+    const entry = await this.store.get<GcraData>(KEY_PREFIX + key);
+    const { remaining, resetAt, retryAfterMs } = summarize(
+      entry?.tat ?? now,
+      params,
+      now
+    );
+    return {
+      remaining,
+      resetAt,
+      limit: params.burst,
+      retryAfterMs,
+    };
+  }
+
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.delete(KEY_PREFIX + key);
+  }
+}
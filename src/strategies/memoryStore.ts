@@ -1,125 +1,176 @@
-import { RateLimiterConfig } from "../types";
+import {
+  ConsumeResult,
+  RateLimiterConfig,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import {
+  createKeyedLock,
+  createLock,
+  StoreMutation,
+  updateStoreValue,
+} from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
 
 /**
- * A record to track individual key usage, expiration, and LRU node.
+ * Per-key state of a fixed window, as kept in the store.
  */
-type MemoryStoreData = {
+type FixedWindowData = {
   count: number;
-  expiresAt: number;
-  lruNode: LruNode;
+  resetAt: number;
 };
 
-/**
- * A node in the expiry min-heap.
- */
-type HeapNode = {
-  key: string;
-  expiresAt: number;
-};
+const KEY_PREFIX = "fixed:";
 
 /**
- * A node in the LRU doubly-linked list.
+ * Hit and rejection counters, globally and optionally per key.
  */
-type LruNode = {
-  key: string;
-  prev: LruNode | null;
-  next: LruNode | null;
+type FixedWindowMetrics = {
+  hits: number;
+  rejections: number;
+  perKeyStats: Map<string, { hits: number; rejections: number }>;
 };
 
 /**
- * Rate limiter state.
+ * State behind the standalone functions below (isAllowedMemory, resetKey,
+ * resetAll, getMetrics). FixedWindowStrategy instances never touch it.
  */
-const memoryStore = new Map<string, MemoryStoreData>();
-const heap: HeapNode[] = []; // Min-heap for expirations
-let hits = 0;
-let rejections = 0;
-let callCount = 0;
-let lruHead: LruNode | null = null; // LRU list head
-let lruTail: LruNode | null = null; // LRU list tail
-const perKeyStats = new Map<string, { hits: number; rejections: number }>(); // Optional per-key metrics
-let lockPromise: Promise<void> = Promise.resolve(); // Concurrency lock
-let gcInterval: NodeJS.Timeout | null = null;
+let defaultStore: MemoryStore | null = null;
+const defaultMetrics = createMetrics();
+const acquireLock = createLock(); // Concurrency lock
 
 /**
- * Min-heap operations for expiry queue.
+ * Returns the in-memory store used by the standalone functions.
  */
-function heapPush(node: HeapNode): void {
-  heap.push(node);
-  let i = heap.length - 1;
-  while (i > 0) {
-    const parent = Math.floor((i - 1) / 2);
-    if (heap[parent].expiresAt <= node.expiresAt) break;
-    heap[i] = heap[parent];
-    i = parent;
+function getDefaultStore(config: RateLimiterConfig = {}): MemoryStore {
+  if (!defaultStore) {
+    defaultStore = new MemoryStore(config);
   }
-  heap[i] = node;
+  return defaultStore;
 }
 
-function heapPop(): HeapNode | undefined {
-  if (heap.length === 0) return undefined;
-  const result = heap[0];
-  const last = heap.pop()!;
-  if (heap.length > 0) {
-    heap[0] = last;
-    let i = 0;
-    while (true) {
-      const left = 2 * i + 1;
-      const right = 2 * i + 2;
-      let smallest = i;
-      if (
-        left < heap.length &&
-        heap[left].expiresAt < heap[smallest].expiresAt
-      ) {
-        smallest = left;
-      }
-      if (
-        right < heap.length &&
-        heap[right].expiresAt < heap[smallest].expiresAt
-      ) {
-        smallest = right;
-      }
-      if (smallest === i) break;
-      [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
-      i = smallest;
-    }
+function createMetrics(): FixedWindowMetrics {
+  return { hits: 0, rejections: 0, perKeyStats: new Map() };
+}
+
+function recordDecision(
+  metrics: FixedWindowMetrics,
+  key: string,
+  allowed: boolean,
+  enablePerKeyStats: boolean
+): void {
+  if (allowed) metrics.hits++;
+  else metrics.rejections++;
+  if (enablePerKeyStats) {
+    const current = metrics.perKeyStats.get(key);
+    metrics.perKeyStats.set(key, {
+      hits: (current?.hits || 0) + (allowed ? 1 : 0),
+      rejections: (current?.rejections || 0) + (allowed ? 0 : 1),
+    });
   }
-  return result;
+}
+
+function readMetrics(
+  metrics: FixedWindowMetrics,
+  key?: string
+): { hits: number; rejections: number } {
+  if (key && metrics.perKeyStats.has(key)) {
+    return { ...metrics.perKeyStats.get(key)! };
+  }
+  return { hits: metrics.hits, rejections: metrics.rejections };
 }
 
 /**
- * LRU operations for memory capping.
+ * Counts `cost` units against a fixed window's stored `entry` at `now`, all
+ * or nothing. Shared by the strategy and stores that run it in one step.
  */
-function addLruNode(key: string): LruNode {
-  const node: LruNode = { key, prev: null, next: lruHead };
-  if (lruHead) lruHead.prev = node;
-  lruHead = node;
-  if (!lruTail) lruTail = node;
-  return node;
+export function decideFixedWindow(
+  entry: FixedWindowData | undefined,
+  limit: number,
+  windowMs: number,
+  now: number,
+  cost = 1
+): StoreMutation<FixedWindowData, ConsumeResult> {
+  const current = entry && entry.resetAt > now ? entry : undefined;
+  if (!current) {
+    // New or expired window
+    const resetAt = now + windowMs;
+    return {
+      result: { allowed: true, remaining: limit - cost, resetAt },
+      value: { count: cost, resetAt },
+      ttlMs: windowMs,
+    };
+  }
+  if (entry.count + cost <= limit) {
+    return {
+      result: {
+        allowed: true,
+        remaining: limit - entry.count - cost,
+        resetAt: entry.resetAt,
+      },
+      value: { count: entry.count + cost, resetAt: entry.resetAt },
+      ttlMs: entry.resetAt - now,
+    };
+  }
+  // Rate limit exceeded
+  return {
+    result: {
+      allowed: false,
+      remaining: Math.max(0, limit - entry.count),
+      resetAt: entry.resetAt,
+    },
+  };
 }
 
-function moveToFront(node: LruNode): void {
-  if (node === lruHead) return;
-  if (node.prev) node.prev.next = node.next;
-  if (node.next) node.next.prev = node.prev;
-  if (node === lruTail) lruTail = node.prev;
-  node.next = lruHead;
-  node.prev = null;
-  if (lruHead) lruHead.prev = node;
-  lruHead = node;
-  if (!lruTail) lruTail = node;
-}
+/**
+ * Counts `cost` units against the fixed window stored under `key`, all or
+ * nothing.
+ * @returns Whether the request is allowed, with the remaining count and reset time
+ * @throws Error if inputs are invalid
+ */
+async function consumeFixedWindow(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  windowInSeconds: number,
+  now: () => number,
+  cost = 1
+): Promise<ConsumeResult> {
+  /* Validate inputs start*/
+  if (typeof key !== "string" || key.trim() === "")
+    throw new Error("Invalid key");
 
-function removeLruTail(): void {
-  if (!lruTail) return;
-  memoryStore.delete(lruTail.key);
-  perKeyStats.delete(lruTail.key);
-  if (lruTail.prev) {
-    lruTail.prev.next = null;
-    lruTail = lruTail.prev;
-  } else {
-    lruHead = null;
-    lruTail = null;
+  if (
+    !Number.isFinite(limit) ||
+    limit <= 0 ||
+    !Number.isFinite(windowInSeconds) ||
+    windowInSeconds <= 0
+  )
+    throw new Error("Invalid limit or windowInSeconds");
+
+  if (windowInSeconds * 1000 > Number.MAX_SAFE_INTEGER) {
+    throw new Error("Window too large for safe expiration");
+  }
+  /* Validate inputs end*/
+
+  const windowMs = windowInSeconds * 1000;
+  if (store.consumeFixedWindow) {
+    return store.consumeFixedWindow(
+      KEY_PREFIX + key,
+      limit,
+      windowMs,
+      now(),
+      cost
+    );
   }
+  return updateStoreValue<FixedWindowData, ConsumeResult>(
+    store,
+    KEY_PREFIX + key,
+    (entry) => decideFixedWindow(entry, limit, windowMs, now(), cost)
+  );
 }
 
 /**
@@ -133,34 +184,23 @@ export async function resetKey(key: string): Promise<void> {
   }
   const unlock = await acquireLock();
   try {
-    const entry = memoryStore.get(key);
-    if (entry) {
-      if (entry.lruNode.prev) entry.lruNode.prev.next = entry.lruNode.next;
-      if (entry.lruNode.next) entry.lruNode.next.prev = entry.lruNode.prev;
-      if (entry.lruNode === lruHead) lruHead = entry.lruNode.next;
-      if (entry.lruNode === lruTail) lruTail = entry.lruNode.prev;
-      memoryStore.delete(key);
-      perKeyStats.delete(key);
-    }
+    await getDefaultStore().delete(KEY_PREFIX + key);
+    defaultMetrics.perKeyStats.delete(key);
   } finally {
     unlock();
   }
 }
 
 /**
- * Resets all rate limit state.
+ * Resets all state used by the standalone functions.
  */
 export async function resetAll(): Promise<void> {
   const unlock = await acquireLock();
   try {
-    memoryStore.clear();
-    heap.length = 0;
-    hits = 0;
-    rejections = 0;
-    callCount = 0;
-    lruHead = null;
-    lruTail = null;
-    perKeyStats.clear();
+    await getDefaultStore().clear();
+    defaultMetrics.hits = 0;
+    defaultMetrics.rejections = 0;
+    defaultMetrics.perKeyStats.clear();
   } finally {
     unlock();
   }
@@ -176,57 +216,16 @@ export async function getMetrics(
 ): Promise<{ hits: number; rejections: number }> {
   const unlock = await acquireLock();
   try {
-    if (key && perKeyStats.has(key)) {
-      return { ...perKeyStats.get(key)! };
-    }
-    return { hits, rejections };
+    return readMetrics(defaultMetrics, key);
   } finally {
     unlock();
   }
 }
 
-/**
- * Acquires a lock for concurrency safety in JavaScript's event loop.
- * @returns A function to release the lock
- */
-async function acquireLock(): Promise<() => void> {
-  const currentLock = lockPromise;
-  let resolveLock: () => void;
-  lockPromise = new Promise((resolve) => {
-    resolveLock = resolve;
-  });
-  await currentLock;
-  return () => resolveLock!();
-}
-
-function sweepExpiredKeys(maxBatchCleanup: number = 1000) {
-  const now = Date.now();
-  let cleaned = 0;
-  while (
-    heap.length > 0 &&
-    heap[0].expiresAt <= now &&
-    cleaned < maxBatchCleanup
-  ) {
-    const expired = heapPop()!;
-    const current = memoryStore.get(expired.key);
-    if (current && current.expiresAt === expired.expiresAt) {
-      if (current.lruNode.prev)
-        current.lruNode.prev.next = current.lruNode.next;
-      if (current.lruNode.next)
-        current.lruNode.next.prev = current.lruNode.prev;
-      if (current.lruNode === lruHead) lruHead = current.lruNode.next;
-      if (current.lruNode === lruTail) lruTail = current.lruNode.prev;
-      memoryStore.delete(expired.key);
-      perKeyStats.delete(expired.key);
-    }
-    cleaned++;
-  }
-}
-
 /**
  * Checks if a key is allowed based on rate limit.
- * Uses a min-heap for expirations, LRU for memory capping, and Promise-based locking.
- * Handles millions of users with hybrid cleanup (on-demand + periodic).
+ * Uses a process-wide in-memory store (min-heap for expirations, LRU for
+ * memory capping) and Promise-based locking.
  * @param key Unique identifier for rate limiting
  * @param limit Maximum requests allowed in window
  * @param windowInSeconds Time window in seconds
@@ -242,162 +241,37 @@ export async function isAllowedMemory(
   config: RateLimiterConfig = {},
   now: () => number = Date.now
 ): Promise<boolean> {
-  /* Validate inputs start*/
-  if (typeof key !== "string" || key.trim() === "")
-    throw new Error("Invalid key");
-
-  if (
-    !Number.isFinite(limit) ||
-    limit <= 0 ||
-    !Number.isFinite(windowInSeconds) ||
-    windowInSeconds <= 0
-  )
-    throw new Error("Invalid limit or windowInSeconds");
-
-  if (windowInSeconds * 1000 > Number.MAX_SAFE_INTEGER) {
-    throw new Error("Window too large for safe expiration");
-  }
-  /* Validate inputs start*/
-
-  const {
-    maxStoreSize = 1000000,
-    cleanupInterval = 1000,
-    enablePerKeyStats = false,
-    maxBatchCleanup = 1000,
-  } = config;
   const unlock = await acquireLock();
   try {
-    const currentTime = now();
-    callCount++;
-
-    // Step 1: On-demand cleanup for recent expirations
-    let cleanupCount = 0;
-    while (
-      heap.length > 0 &&
-      heap[0].expiresAt <= currentTime &&
-      cleanupCount < maxBatchCleanup
-    ) {
-      const expired = heapPop()!;
-      const current = memoryStore.get(expired.key);
-      if (current && current.expiresAt === expired.expiresAt) {
-        if (current.lruNode.prev)
-          current.lruNode.prev.next = current.lruNode.next;
-        if (current.lruNode.next)
-          current.lruNode.next.prev = current.lruNode.prev;
-        if (current.lruNode === lruHead) lruHead = current.lruNode.next;
-        if (current.lruNode === lruTail) lruTail = current.lruNode.prev;
-        memoryStore.delete(expired.key);
-        perKeyStats.delete(expired.key);
-      }
-      cleanupCount++;
-    }
-
-    // Step 2: Periodic cleanup for older expirations
-    if (callCount % cleanupInterval === 0 && heap.length > 0) {
-      const threshold = currentTime - windowInSeconds * 1000;
-      cleanupCount = 0;
-      while (
-        heap.length > 0 &&
-        heap[0].expiresAt <= threshold &&
-        cleanupCount < maxBatchCleanup
-      ) {
-        const expired = heapPop()!;
-        const current = memoryStore.get(expired.key);
-        if (current && current.expiresAt === expired.expiresAt) {
-          if (current.lruNode.prev)
-            current.lruNode.prev.next = current.lruNode.next;
-          if (current.lruNode.next)
-            current.lruNode.next.prev = current.lruNode.prev;
-          if (current.lruNode === lruHead) lruHead = current.lruNode.next;
-          if (current.lruNode === lruTail) lruTail = current.lruNode.prev;
-          memoryStore.delete(expired.key);
-          perKeyStats.delete(expired.key);
-        }
-        cleanupCount++;
-      }
-    }
-
-    // Step 3: Enforce memory cap
-    while (memoryStore.size >= maxStoreSize) {
-      removeLruTail();
-    }
-
-    // Step 4: Process the current key
-    let entry = memoryStore.get(key);
-    if (!entry) {
-      // New entry
-      const expiresAt = currentTime + windowInSeconds * 1000;
-      const lruNode = addLruNode(key);
-      entry = { count: 1, expiresAt, lruNode };
-      memoryStore.set(key, entry);
-      heapPush({ key, expiresAt });
-      hits++;
-      if (enablePerKeyStats) {
-        perKeyStats.set(key, {
-          hits: (perKeyStats.get(key)?.hits || 0) + 1,
-          rejections: perKeyStats.get(key)?.rejections || 0,
-        });
-      }
-      return true;
-    }
-
-    moveToFront(entry.lruNode);
-
-    if (entry.expiresAt <= currentTime) {
-      // Expired entry
-      const expiresAt = currentTime + windowInSeconds * 1000;
-      entry.count = 1;
-      entry.expiresAt = expiresAt;
-      heapPush({ key, expiresAt });
-      hits++;
-      if (enablePerKeyStats) {
-        perKeyStats.set(key, {
-          hits: (perKeyStats.get(key)?.hits || 0) + 1,
-          rejections: perKeyStats.get(key)?.rejections || 0,
-        });
-      }
-      return true;
-    }
-
-    if (entry.count < limit) {
-      entry.count++;
-      hits++;
-      if (enablePerKeyStats) {
-        perKeyStats.set(key, {
-          hits: (perKeyStats.get(key)?.hits || 0) + 1,
-          rejections: perKeyStats.get(key)?.rejections || 0,
-        });
-      }
-      return true;
-    }
-
-    rejections++;
-    if (enablePerKeyStats) {
-      perKeyStats.set(key, {
-        hits: perKeyStats.get(key)?.hits || 0,
-        rejections: (perKeyStats.get(key)?.rejections || 0) + 1,
-      });
-    }
-    return false; // Rate limit exceeded
+    const { allowed } = await consumeFixedWindow(
+      getDefaultStore(config),
+      key,
+      limit,
+      windowInSeconds,
+      now
+    );
+    recordDecision(defaultMetrics, key, allowed, !!config.enablePerKeyStats);
+    return allowed;
   } finally {
     unlock();
   }
 }
 
-import { RateLimitStrategy, RateLimitState } from "../types";
-
 export class FixedWindowStrategy implements RateLimitStrategy {
   private config: any;
-  private maxEntries: number;
-  private gcStarted = false;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private metrics = createMetrics();
+  private acquireLock = createKeyedLock();
   private getLimitFn?: (req?: any) => number;
 
   constructor(config: any) {
     this.config = config;
-    this.maxEntries = config.limiterConfig?.maxStoreSize || 1000000;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
     this.getLimitFn =
       typeof config.limit === "function" ? config.limit : undefined;
-    this.startGC();
   }
 
   private getLimit(req?: any): number {
@@ -407,49 +281,110 @@ export class FixedWindowStrategy implements RateLimitStrategy {
     return this.config.limit;
   }
 
-  private startGC() {
-    if (this.gcStarted) return;
-    gcInterval = setInterval(() => {
-      sweepExpiredKeys(this.config.limiterConfig?.maxBatchCleanup || 1000);
-      // Enforce maxEntries
-      while (memoryStore.size > this.maxEntries) {
-        removeLruTail();
-      }
-    }, 30000); // 30 seconds
-    this.gcStarted = true;
-  }
-
   stopGC() {
-    if (gcInterval) clearInterval(gcInterval);
-    this.gcStarted = false;
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
   }
 
   async isAllowed(key: string, req?: any): Promise<boolean> {
-    // Enforce maxEntries before allowing
-    while (memoryStore.size >= this.maxEntries) {
-      removeLruTail();
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const limit = this.getLimit(req);
+    const unlock = await this.acquireLock(key);
+    try {
+      const result = await consumeFixedWindow(
+        this.store,
+        key,
+        limit,
+        this.config.windowInSeconds,
+        Date.now,
+        cost
+      );
+      recordDecision(
+        this.metrics,
+        key,
+        result.allowed,
+        !!this.config.limiterConfig?.enablePerKeyStats
+      );
+      return { ...result, limit };
+    } finally {
+      unlock();
     }
-    return isAllowedMemory(
-      key,
-      this.getLimit(req),
-      this.config.windowInSeconds,
-      this.config.limiterConfig
-    );
+  }
+
+  /**
+   * Gives back `cost` units counted in the key's current window. Nothing is
+   * carried over once the window has ended.
+   */
+  async refund(key: string, cost = 1): Promise<void> {
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<FixedWindowData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          const now = Date.now();
+          if (!entry || entry.resetAt <= now) return { result: undefined };
+          return {
+            result: undefined,
+            value: {
+              count: Math.max(0, entry.count - cost),
+              resetAt: entry.resetAt,
+            },
+            ttlMs: entry.resetAt - now,
+          };
+        }
+      );
+    } finally {
+      unlock();
+    }
+  }
+
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
   }
 
   async reset(key: string): Promise<void> {
-    return resetKey(key);
+    await this.store.delete(KEY_PREFIX + key);
+    this.metrics.perKeyStats.delete(key);
   }
 
-  async getState(key: string): Promise<RateLimitState> {
-    // Not implemented in original logic, return dummy for now
+  async getState(key: string, req?: any): Promise<RateLimitState> {
+    const now = Date.now();
+    const limit = this.getLimit(req);
+    const entry = await this.store.get<FixedWindowData>(KEY_PREFIX + key);
+    if (!entry || entry.resetAt <= now) {
+      return {
+        remaining: limit,
+        resetAt: now + this.config.windowInSeconds * 1000,
+        limit: limit,
+      };
+    }
     return {
-      remaining: 0,
-      resetAt: 0,
-      limit: this.config.limit,
+      remaining: Math.max(0, limit - entry.count),
+      resetAt: entry.resetAt,
+      limit: limit,
     };
   }
 
+  /**
+   * Returns this limiter's hits and rejections (global or per-key).
+   */
+  getMetrics(key?: string): { hits: number; rejections: number } {
+    return readMetrics(this.metrics, key);
+  }
+
+  /**
+   * Resets the state behind the standalone functions. Limiter instances own
+   * their state and are reset with `reset(key)`.
+   * @deprecated Each limiter now has its own store.
+   */
   static async resetAll(): Promise<void> {
     await resetAll();
   }
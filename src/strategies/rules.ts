@@ -0,0 +1,193 @@
+import {
+  ConsumeResult,
+  RateLimitRule,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import { createKeyedLock } from "../utils/storeUpdate";
+import { FixedWindowStrategy } from "./memoryStore";
+import { SlidingWindowStrategy } from "./slidingWindow";
+import { TokenBucketStrategy } from "./tokenBucket";
+import { SlidingCounterStrategy } from "./slidingCounter";
+import { GcraStrategy } from "./gcra";
+
+/**
+ * Keys of each rule live under their own prefix in the shared store, so two
+ * rules using the same strategy never share counters.
+ */
+function ruleKey(index: number, key: string): string {
+  return `rule${index}:${key}`;
+}
+
+function createRuleStrategy(config: any): RateLimitStrategy {
+  switch (config.strategy || "fixed") {
+    case "sliding":
+      return new SlidingWindowStrategy(config);
+    case "tokenBucket":
+      return new TokenBucketStrategy(config);
+    case "slidingCounter":
+      return new SlidingCounterStrategy(config);
+    case "gcra":
+      return new GcraStrategy(config);
+    case "fixed":
+    default:
+      return new FixedWindowStrategy(config);
+  }
+}
+
+/**
+ * Rule whose result should be reported: when rejected, the rejecting rule
+ * that frees up last (the request must wait for all of them); when allowed,
+ * the rule with the least left.
+ */
+function bindingIndex(results: ConsumeResult[]): number {
+  const now = Date.now();
+  const waitOf = (result: ConsumeResult) =>
+    result.retryAfterMs ?? Math.max(0, result.resetAt - now);
+  let binding = -1;
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    if (binding === -1) {
+      binding = i;
+      continue;
+    }
+    const current = results[binding];
+    if (!result.allowed && current.allowed) {
+      binding = i;
+    } else if (!result.allowed && !current.allowed) {
+      if (waitOf(result) > waitOf(current)) binding = i;
+    } else if (result.allowed && current.allowed) {
+      if (result.remaining < current.remaining) binding = i;
+    }
+  }
+  return binding;
+}
+
+/**
+ * Enforces several limits on the same key at once, e.g. 10 per second and
+ * 1000 per hour. A request is counted against every rule or, if any rule
+ * would reject it, against none. All rules keep their state in one store.
+ *
+ * Requests for a key are serialized within this process; limiters in other
+ * processes sharing the store may interleave between the check and the
+ * count. If a rule then rejects, the rules already counted are refunded.
+ */
+export class MultiRuleStrategy implements RateLimitStrategy {
+  private rules: RateLimitStrategy[];
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
+
+  constructor(config: any) {
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
+    this.rules = (config.rules as RateLimitRule[]).map((rule) =>
+      createRuleStrategy({ ...config, ...rule, rules: undefined, store })
+    );
+  }
+
+  stopGC() {
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
+  }
+
+  async isAllowed(key: string, req?: any): Promise<boolean> {
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Counts `cost` against every rule, or nothing if any rule lacks room.
+   * `rule` in the result is the index of the binding rule.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const unlock = await this.acquireLock(key);
+    try {
+      const states = await Promise.all(
+        this.rules.map((rule, i) => rule.getState!(ruleKey(i, key), req))
+      );
+      const checks: ConsumeResult[] = states.map((state) => ({
+        ...state,
+        allowed: state.remaining >= cost,
+      }));
+      if (checks.some((check) => !check.allowed)) {
+        // A rule the cost can never fit in decides over one that resets
+        const exceeded = states.findIndex((state) => cost > state.limit);
+        const rule = exceeded !== -1 ? exceeded : bindingIndex(checks);
+        return { ...checks[rule], rule };
+      }
+      const results: ConsumeResult[] = [];
+      for (let i = 0; i < this.rules.length; i++) {
+        const result = await this.rules[i].consume!(ruleKey(i, key), cost, req);
+        if (!result.allowed) {
+          // Another process took the room since the check: give back what
+          // the earlier rules counted, so the rejected request costs nothing
+          await Promise.all(
+            results.map((_, j) =>
+              this.rules[j].refund!(ruleKey(j, key), cost, req)
+            )
+          );
+          return { ...result, rule: i };
+        }
+        results.push(result);
+      }
+      const rule = bindingIndex(results);
+      return { ...results[rule], rule };
+    } finally {
+      unlock();
+    }
+  }
+
+  /**
+   * Gives `cost` back to every rule.
+   */
+  async refund(key: string, cost = 1, req?: any): Promise<void> {
+    await Promise.all(
+      this.rules.map((rule, i) => rule.refund!(ruleKey(i, key), cost, req))
+    );
+  }
+
+  /**
+   * State of the rule with the least left for `key`.
+   */
+  async getState(key: string, req?: any): Promise<RateLimitState> {
+    const states = await Promise.all(
+      this.rules.map((rule, i) => rule.getState!(ruleKey(i, key), req))
+    );
+    const rule = bindingIndex(
+      states.map((state) => ({ ...state, allowed: true }))
+    );
+    return states[rule];
+  }
+
+  async snapshot(): Promise<StoreEntry[]> {
+    const entries: StoreEntry[] = [];
+    for (let i = 0; i < this.rules.length; i++) {
+      // Rules with the same strategy list each other's keys; keep only this rule's
+      const own = (await this.rules[i].snapshot!()).filter((entry) =>
+        entry.key.startsWith(ruleKey(i, ""))
+      );
+      entries.push(...own);
+    }
+    return entries;
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    let restored = 0;
+    for (let i = 0; i < this.rules.length; i++) {
+      restored += await this.rules[i].restore!(
+        entries.filter((entry) => entry.key.startsWith(ruleKey(i, "")))
+      );
+    }
+    return restored;
+  }
+
+  async reset(key: string): Promise<void> {
+    await Promise.all(
+      this.rules.map((rule, i) => rule.reset!(ruleKey(i, key)))
+    );
+  }
+}
@@ -0,0 +1,258 @@
+import {
+  ConsumeResult,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import {
+  createKeyedLock,
+  StoreMutation,
+  updateStoreValue,
+} from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
+
+type SlidingCounterData = {
+  /** Start of the current fixed window (aligned to the window size). */
+  windowStart: number;
+  current: number;
+  previous: number;
+};
+
+const KEY_PREFIX = "slidingCounter:";
+
+/**
+ * Moves the counters forward to the window containing `now`.
+ */
+function rollWindow(
+  entry: SlidingCounterData | undefined,
+  windowMs: number,
+  now: number
+): SlidingCounterData {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  if (!entry || entry.windowStart <= windowStart - 2 * windowMs) {
+    return { windowStart, current: 0, previous: 0 };
+  }
+  if (entry.windowStart < windowStart) {
+    return { windowStart, current: 0, previous: entry.current };
+  }
+  return entry;
+}
+
+/**
+ * Requests counted over the last `windowMs`, assuming the previous window's
+ * requests were spread evenly across it.
+ */
+function estimate(
+  data: SlidingCounterData,
+  windowMs: number,
+  now: number
+): number {
+  const elapsed = (now - data.windowStart) / windowMs;
+  return data.previous * (1 - elapsed) + data.current;
+}
+
+/**
+ * Earliest time at which the estimate drops to `target` or below, with no
+ * further requests counted.
+ */
+function timeUntilEstimate(
+  data: SlidingCounterData,
+  windowMs: number,
+  target: number,
+  now: number
+): number {
+  const windowEnd = data.windowStart + windowMs;
+  if (data.previous > 0 && data.current <= target) {
+    const at =
+      data.windowStart +
+      windowMs * (1 - (target - data.current) / data.previous);
+    return Math.max(now, at);
+  }
+  if (data.current > 0) {
+    // The current count becomes the previous window's and decays from there
+    return windowEnd + windowMs * (1 - Math.max(0, target) / data.current);
+  }
+  return windowEnd;
+}
+
+/**
+ * Computes remaining/resetAt for counters that are already rolled to `now`.
+ * `resetAt` is when the next unit of `remaining` frees up.
+ */
+function summarize(
+  data: SlidingCounterData,
+  limit: number,
+  windowMs: number,
+  now: number
+): { remaining: number; resetAt: number } {
+  const count = estimate(data, windowMs, now);
+  if (count <= 0) {
+    return { remaining: limit, resetAt: now + windowMs };
+  }
+  const remaining = Math.max(0, Math.floor(limit - count));
+  return {
+    remaining,
+    resetAt: timeUntilEstimate(data, windowMs, limit - remaining - 1, now),
+  };
+}
+
+/**
+ * Counts `cost` units at `now` against a sliding counter's stored `entry`,
+ * or none if the estimate would exceed `limit`. Shared by the strategy and
+ * stores that run it in one step.
+ */
+export function decideSlidingCounter(
+  entry: SlidingCounterData | undefined,
+  limit: number,
+  windowMs: number,
+  now: number,
+  cost = 1
+): StoreMutation<SlidingCounterData, ConsumeResult> {
+  const data = rollWindow(entry, windowMs, now);
+  if (estimate(data, windowMs, now) + cost > limit) {
+    return {
+      result: { allowed: false, ...summarize(data, limit, windowMs, now) },
+    };
+  }
+  const next = { ...data, current: data.current + cost };
+  return {
+    result: { allowed: true, ...summarize(next, limit, windowMs, now) },
+    value: next,
+    // The current count matters until the end of the next window
+    ttlMs: next.windowStart + 2 * windowMs - now,
+  };
+}
+
+/**
+ * Approximates a sliding window with two fixed-window counters per key:
+ * the previous window's count is weighted by how much of it still overlaps
+ * the sliding window. Memory per key is constant regardless of the limit.
+ */
+export class SlidingCounterStrategy implements RateLimitStrategy {
+  private limit: number;
+  private windowMs: number;
+  private config: any;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
+  private getLimitFn?: (req?: any) => number;
+
+  constructor(config: any) {
+    this.config = config;
+    this.limit = config.limit;
+    this.windowMs = config.windowInSeconds * 1000;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
+    this.getLimitFn =
+      typeof config.limit === "function" ? config.limit : undefined;
+  }
+
+  stopGC() {
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
+  }
+
+  private getLimit(req?: any): number {
+    if (this.getLimitFn) {
+      return this.getLimitFn(req);
+    }
+    return this.limit;
+  }
+
+  async isAllowed(key: string, req?: any): Promise<boolean> {
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Counts `cost` requests at once, or none if they do not all fit.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const limit = this.getLimit(req);
+    const unlock = await this.acquireLock(key);
+    try {
+      return { ...(await this.consumeUnits(key, limit, cost)), limit };
+    } finally {
+      unlock();
+    }
+  }
+
+  private consumeUnits(
+    key: string,
+    limit: number,
+    cost: number
+  ): Promise<ConsumeResult> {
+    if (this.store.consumeSlidingCounter) {
+      return this.store.consumeSlidingCounter(
+        KEY_PREFIX + key,
+        limit,
+        this.windowMs,
+        Date.now(),
+        cost
+      );
+    }
+    return updateStoreValue<SlidingCounterData, ConsumeResult>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) =>
+        decideSlidingCounter(entry, limit, this.windowMs, Date.now(), cost)
+    );
+  }
+
+  /**
+   * Takes `cost` back off the counters, from the current window first and
+   * then from the previous one if the request was counted there.
+   */
+  async refund(key: string, cost = 1): Promise<void> {
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<SlidingCounterData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          if (!entry) return { result: undefined };
+          const now = Date.now();
+          const data = rollWindow(entry, this.windowMs, now);
+          const fromCurrent = Math.min(cost, data.current);
+          const next = {
+            ...data,
+            current: data.current - fromCurrent,
+            previous: Math.max(0, data.previous - (cost - fromCurrent)),
+          };
+          return {
+            result: undefined,
+            value: next,
+            ttlMs: next.windowStart + 2 * this.windowMs - now,
+          };
+        }
+      );
+    } finally {
+      unlock();
+    }
+  }
+
+  async getState(key: string, req?: any): Promise<RateLimitState> {
+    const now = Date.now();
+    const limit = this.getLimit(req);
+    const entry = await this.store.get<SlidingCounterData>(KEY_PREFIX + key);
+    const data = rollWindow(entry, this.windowMs, now);
+    return {
+      ...summarize(data, limit, this.windowMs, now),
+      limit: limit,
+    };
+  }
+
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.store.delete(KEY_PREFIX + key);
+  }
+}
@@ -1,61 +1,90 @@
-import { RateLimitStrategy, RateLimitState } from "../types";
+import {
+  ConsumeResult,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import {
+  createKeyedLock,
+  StoreMutation,
+  updateStoreValue,
+} from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
 
 type SlidingWindowData = {
   timestamps: number[];
-  expiresAt: number;
 };
 
-const slidingWindowStore = new Map<string, SlidingWindowData>();
+const KEY_PREFIX = "sliding:";
 
-let gcInterval: NodeJS.Timeout | null = null;
-
-function sweepExpiredKeys(maxEntries: number = 1000000) {
-  const now = Date.now();
-  for (const [key, entry] of slidingWindowStore.entries()) {
-    entry.timestamps = entry.timestamps.filter(
-      (ts) => ts > now - entry.expiresAt
-    );
-    if (entry.timestamps.length === 0) {
-      slidingWindowStore.delete(key);
-    }
-  }
-  // Enforce maxEntries
-  while (slidingWindowStore.size > maxEntries) {
-    // Remove oldest (not LRU, but simple for now)
-    const firstKey = slidingWindowStore.keys().next().value;
-    slidingWindowStore.delete(firstKey);
+/**
+ * Records `cost` timestamps at `now` in a sliding window's stored `entry`,
+ * or none if they do not all fit. Shared by the strategy and stores that
+ * run it in one step.
+ */
+export function decideSlidingWindow(
+  entry: SlidingWindowData | undefined,
+  limit: number,
+  windowMs: number,
+  now: number,
+  cost = 1
+): StoreMutation<SlidingWindowData, ConsumeResult> {
+  const windowStart = now - windowMs;
+  const timestamps = (entry?.timestamps || []).filter(
+    (timestamp) => timestamp > windowStart
+  );
+  if (timestamps.length + cost <= limit) {
+    // One timestamp per unit, so each unit leaves the window on its own
+    for (let i = 0; i < cost; i++) timestamps.push(now);
+    return {
+      result: {
+        allowed: true,
+        remaining: limit - timestamps.length,
+        resetAt: (timestamps[0] ?? now) + windowMs,
+      },
+      value: { timestamps },
+      ttlMs: windowMs,
+    };
   }
+  // Wait until enough of the oldest timestamps have left the window
+  const expiring = timestamps.length + cost - limit;
+  return {
+    result: {
+      allowed: false,
+      remaining: Math.max(0, limit - timestamps.length),
+      resetAt: (timestamps[0] ?? now) + windowMs,
+      retryAfterMs:
+        expiring <= timestamps.length
+          ? timestamps[expiring - 1] + windowMs - now
+          : windowMs,
+    },
+  };
 }
 
 export class SlidingWindowStrategy implements RateLimitStrategy {
   private limit: number;
   private windowMs: number;
   private config: any;
-  private maxEntries: number;
-  private gcStarted = false;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
   private getLimitFn?: (req?: any) => number;
 
   constructor(config: any) {
     this.config = config;
     this.limit = config.limit;
     this.windowMs = config.windowInSeconds * 1000;
-    this.maxEntries = config.limiterConfig?.maxStoreSize || 1000000;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
     this.getLimitFn =
       typeof config.limit === "function" ? config.limit : undefined;
-    this.startGC();
-  }
-
-  private startGC() {
-    if (this.gcStarted) return;
-    gcInterval = setInterval(() => {
-      sweepExpiredKeys(this.maxEntries);
-    }, 30000);
-    this.gcStarted = true;
   }
 
   stopGC() {
-    if (gcInterval) clearInterval(gcInterval);
-    this.gcStarted = false;
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
   }
 
   private getLimit(req?: any): number {
@@ -66,32 +95,77 @@ export class SlidingWindowStrategy implements RateLimitStrategy {
   }
 
   async isAllowed(key: string, req?: any): Promise<boolean> {
-    // Enforce maxEntries before allowing
-    while (slidingWindowStore.size >= this.maxEntries) {
-      const firstKey = slidingWindowStore.keys().next().value;
-      slidingWindowStore.delete(firstKey);
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Records `cost` requests at once, or none if they do not all fit.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
+    const limit = this.getLimit(req);
+    const unlock = await this.acquireLock(key);
+    try {
+      return { ...(await this.consumeUnits(key, limit, cost)), limit };
+    } finally {
+      unlock();
     }
-    const now = Date.now();
-    const windowStart = now - this.windowMs;
-    let entry = slidingWindowStore.get(key);
-    if (!entry) {
-      entry = { timestamps: [], expiresAt: now + this.windowMs };
-      slidingWindowStore.set(key, entry);
+  }
+
+  private consumeUnits(
+    key: string,
+    limit: number,
+    cost: number
+  ): Promise<ConsumeResult> {
+    if (this.store.consumeSlidingWindow) {
+      return this.store.consumeSlidingWindow(
+        KEY_PREFIX + key,
+        limit,
+        this.windowMs,
+        Date.now(),
+        cost
+      );
     }
-    entry.timestamps = entry.timestamps.filter(
-      (timestamp) => timestamp > windowStart
+    return updateStoreValue<SlidingWindowData, ConsumeResult>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) =>
+        decideSlidingWindow(entry, limit, this.windowMs, Date.now(), cost)
     );
-    if (entry.timestamps.length < this.getLimit(req)) {
-      entry.timestamps.push(now);
-      return true;
+  }
+
+  /**
+   * Removes the `cost` most recent timestamps still in the window.
+   */
+  async refund(key: string, cost = 1): Promise<void> {
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<SlidingWindowData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          if (!entry) return { result: undefined };
+          const windowStart = Date.now() - this.windowMs;
+          const timestamps = entry.timestamps.filter(
+            (timestamp) => timestamp > windowStart
+          );
+          timestamps.splice(Math.max(0, timestamps.length - cost));
+          return {
+            result: undefined,
+            value: { timestamps },
+            ttlMs: this.windowMs,
+          };
+        }
+      );
+    } finally {
+      unlock();
     }
-    return false;
   }
 
   async getState(key: string, req?: any): Promise<RateLimitState> {
     const now = Date.now();
     const windowStart = now - this.windowMs;
-    const entry = slidingWindowStore.get(key);
+    const entry = await this.store.get<SlidingWindowData>(KEY_PREFIX + key);
     const limit = this.getLimit(req);
     if (!entry) {
       return {
@@ -100,24 +174,35 @@ export class SlidingWindowStrategy implements RateLimitStrategy {
         limit: limit,
       };
     }
-    entry.timestamps = entry.timestamps.filter(
+    const timestamps = entry.timestamps.filter(
       (timestamp) => timestamp > windowStart
     );
     return {
-      remaining: Math.max(0, limit - entry.timestamps.length),
+      remaining: Math.max(0, limit - timestamps.length),
       resetAt:
-        entry.timestamps.length > 0
-          ? entry.timestamps[0] + this.windowMs
+        timestamps.length > 0
+          ? timestamps[0] + this.windowMs
           : now + this.windowMs,
       limit: limit,
     };
   }
 
-  async reset(key: string): Promise<void> {
-    slidingWindowStore.delete(key);
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
   }
 
-  static async resetAll(): Promise<void> {
-    slidingWindowStore.clear();
+  async reset(key: string): Promise<void> {
+    await this.store.delete(KEY_PREFIX + key);
   }
+
+  /**
+   * Kept for backward compatibility; limiters no longer share module state,
+   * so there is nothing global to reset.
+   * @deprecated Each limiter now has its own store.
+   */
+  static async resetAll(): Promise<void> {}
 }
@@ -1,63 +1,87 @@
-import { RateLimitStrategy, RateLimitState } from "../types";
+import {
+  ConsumeResult,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitState,
+  StoreEntry,
+} from "../types";
+import { MemoryStore, resolveStore } from "../stores/MemoryStore";
+import {
+  createKeyedLock,
+  StoreMutation,
+  updateStoreValue,
+} from "../utils/storeUpdate";
+import { exportEntries, importEntries } from "../utils/snapshot";
 
 type TokenBucketData = {
   tokens: number;
   lastRefill: number;
-  capacity: number;
-  refillRate: number; // tokens per millisecond
 };
 
-const tokenBucketStore = new Map<string, TokenBucketData>();
+const KEY_PREFIX = "tokenBucket:";
 
-let gcInterval: NodeJS.Timeout | null = null;
-
-function sweepExpiredKeys(maxEntries: number = 1000000) {
-  const now = Date.now();
-  for (const [key, entry] of tokenBucketStore.entries()) {
-    // If tokens are 0 and lastRefill is older than a window, delete
-    if (
-      entry.tokens <= 0 &&
-      now - entry.lastRefill > entry.capacity / entry.refillRate
-    ) {
-      tokenBucketStore.delete(key);
-    }
-  }
-  // Enforce maxEntries
-  while (tokenBucketStore.size > maxEntries) {
-    const firstKey = tokenBucketStore.keys().next().value;
-    tokenBucketStore.delete(firstKey);
+/**
+ * Takes `cost` tokens at `now` from a bucket's stored `entry`, or none if it
+ * holds fewer. The bucket refills completely over `windowMs`. Shared by the
+ * strategy and stores that run it in one step.
+ */
+export function decideTokenBucket(
+  entry: TokenBucketData | undefined,
+  capacity: number,
+  windowMs: number,
+  now: number,
+  cost = 1
+): StoreMutation<TokenBucketData, ConsumeResult> {
+  const refillRate = capacity / windowMs;
+  const current = entry || { tokens: capacity, lastRefill: now };
+  const timeElapsed = Math.max(0, now - current.lastRefill);
+  const tokens = Math.min(capacity, current.tokens + timeElapsed * refillRate);
+  if (tokens >= cost) {
+    return {
+      result: {
+        allowed: true,
+        remaining: Math.floor(tokens - cost),
+        resetAt: now + (capacity - tokens + cost) / refillRate,
+      },
+      // Keep the later refill time if the clock stepped back
+      value: {
+        tokens: tokens - cost,
+        lastRefill: Math.max(current.lastRefill, now),
+      },
+      // A bucket left alone this long is full again, so it can expire
+      ttlMs: Math.ceil(windowMs),
+    };
   }
+  return {
+    result: {
+      allowed: false,
+      remaining: Math.floor(tokens),
+      resetAt: now + (capacity - tokens) / refillRate,
+      retryAfterMs: (cost - tokens) / refillRate,
+    },
+  };
 }
 
 export class TokenBucketStrategy implements RateLimitStrategy {
   private capacity: number;
-  private refillRate: number;
   private config: any;
-  private maxEntries: number;
-  private gcStarted = false;
+  private store: RateLimitStore;
+  private ownsStore: boolean;
+  private acquireLock = createKeyedLock();
   private getLimitFn?: (req?: any) => number;
 
   constructor(config: any) {
     this.config = config;
     this.capacity = config.limit;
-    this.refillRate = config.limit / (config.windowInSeconds * 1000);
-    this.maxEntries = config.limiterConfig?.maxStoreSize || 1000000;
+    const { store, owned } = resolveStore(config);
+    this.store = store;
+    this.ownsStore = owned;
     this.getLimitFn =
       typeof config.limit === "function" ? config.limit : undefined;
-    this.startGC();
-  }
-
-  private startGC() {
-    if (this.gcStarted) return;
-    gcInterval = setInterval(() => {
-      sweepExpiredKeys(this.maxEntries);
-    }, 30000);
-    this.gcStarted = true;
   }
 
   stopGC() {
-    if (gcInterval) clearInterval(gcInterval);
-    this.gcStarted = false;
+    if (this.ownsStore) (this.store as MemoryStore).stopGC();
   }
 
   private getLimit(req?: any): number {
@@ -67,61 +91,124 @@ export class TokenBucketStrategy implements RateLimitStrategy {
     return this.capacity;
   }
 
+  /**
+   * Tokens added per millisecond for a bucket of the given capacity.
+   */
+  private getRefillRate(limit: number): number {
+    return limit / (this.config.windowInSeconds * 1000);
+  }
+
   async isAllowed(key: string, req?: any): Promise<boolean> {
-    // Enforce maxEntries before allowing
-    while (tokenBucketStore.size >= this.maxEntries) {
-      const firstKey = tokenBucketStore.keys().next().value;
-      tokenBucketStore.delete(firstKey);
-    }
-    const now = Date.now();
+    const { allowed } = await this.consume(key, 1, req);
+    return allowed;
+  }
+
+  /**
+   * Takes `cost` tokens at once, or none if the bucket holds fewer.
+   */
+  async consume(key: string, cost = 1, req?: any): Promise<ConsumeResult> {
     const limit = this.getLimit(req);
-    let entry = tokenBucketStore.get(key);
-    if (!entry) {
-      entry = {
-        tokens: limit,
-        lastRefill: now,
-        capacity: limit,
-        refillRate: limit / (this.config.windowInSeconds * 1000),
-      };
-      tokenBucketStore.set(key, entry);
+    const unlock = await this.acquireLock(key);
+    try {
+      return { ...(await this.consumeTokens(key, limit, cost)), limit };
+    } finally {
+      unlock();
     }
-    const timeElapsed = now - entry.lastRefill;
-    const tokensToAdd = timeElapsed * entry.refillRate;
-    entry.tokens = Math.min(entry.capacity, entry.tokens + tokensToAdd);
-    entry.lastRefill = now;
-    if (entry.tokens >= 1) {
-      entry.tokens -= 1;
-      return true;
+  }
+
+  private consumeTokens(
+    key: string,
+    limit: number,
+    cost: number
+  ): Promise<ConsumeResult> {
+    const windowMs = this.config.windowInSeconds * 1000;
+    if (this.store.consumeTokenBucket) {
+      return this.store.consumeTokenBucket(
+        KEY_PREFIX + key,
+        limit,
+        windowMs,
+        Date.now(),
+        cost
+      );
+    }
+    return updateStoreValue<TokenBucketData, ConsumeResult>(
+      this.store,
+      KEY_PREFIX + key,
+      (entry) => decideTokenBucket(entry, limit, windowMs, Date.now(), cost)
+    );
+  }
+
+  /**
+   * Puts `cost` tokens back, up to the bucket's capacity.
+   */
+  async refund(key: string, cost = 1, req?: any): Promise<void> {
+    const limit = this.getLimit(req);
+    const refillRate = this.getRefillRate(limit);
+    const unlock = await this.acquireLock(key);
+    try {
+      await updateStoreValue<TokenBucketData, void>(
+        this.store,
+        KEY_PREFIX + key,
+        (entry) => {
+          if (!entry) return { result: undefined };
+          const now = Date.now();
+          const tokens = Math.min(
+            limit,
+            entry.tokens +
+              Math.max(0, now - entry.lastRefill) * refillRate +
+              cost
+          );
+          return {
+            result: undefined,
+            value: { tokens, lastRefill: Math.max(entry.lastRefill, now) },
+            ttlMs: Math.ceil(this.config.windowInSeconds * 1000),
+          };
+        }
+      );
+    } finally {
+      unlock();
     }
-    return false;
   }
 
   async getState(key: string, req?: any): Promise<RateLimitState> {
     const now = Date.now();
     const limit = this.getLimit(req);
-    const entry = tokenBucketStore.get(key);
+    const refillRate = this.getRefillRate(limit);
+    const entry = await this.store.get<TokenBucketData>(KEY_PREFIX + key);
     if (!entry) {
       return {
         remaining: limit,
-        resetAt: now + limit / (limit / (this.config.windowInSeconds * 1000)),
+        resetAt: now + limit / refillRate,
         limit: limit,
       };
     }
-    const timeElapsed = now - entry.lastRefill;
-    const tokensToAdd = timeElapsed * entry.refillRate;
-    const currentTokens = Math.min(entry.capacity, entry.tokens + tokensToAdd);
+    // A store on another clock (Redis server time) may be slightly ahead
+    const timeElapsed = Math.max(0, now - entry.lastRefill);
+    const tokensToAdd = timeElapsed * refillRate;
+    const currentTokens = Math.min(limit, entry.tokens + tokensToAdd);
     return {
       remaining: Math.floor(currentTokens),
-      resetAt: now + (limit - currentTokens) / entry.refillRate,
+      resetAt: now + (limit - currentTokens) / refillRate,
       limit: limit,
     };
   }
 
-  async reset(key: string): Promise<void> {
-    tokenBucketStore.delete(key);
+  async snapshot(): Promise<StoreEntry[]> {
+    return exportEntries(this.store, KEY_PREFIX);
+  }
+
+  async restore(entries: StoreEntry[]): Promise<number> {
+    return importEntries(this.store, KEY_PREFIX, entries);
   }
 
-  static async resetAll(): Promise<void> {
-    tokenBucketStore.clear();
+  async reset(key: string): Promise<void> {
+    await this.store.delete(KEY_PREFIX + key);
   }
+
+  /**
+   * Kept for backward compatibility; limiters no longer share module state,
+   * so there is nothing global to reset.
+   * @deprecated Each limiter now has its own store.
+   */
+  static async resetAll(): Promise<void> {}
 }
@@ -1,14 +1,32 @@
+import type { AccessList } from "../core/AccessList";
+
 export interface LimiterConfig {
   /**
    * Key generator system for rate limiting.
-   * - keyType: 'ip' | 'user-agent' | 'header:X-API-KEY' | 'path' | 'custom'
+   * - keyType: 'ip' | 'user-agent' | 'header:<name>' | 'path' | 'custom'
    * - headerName: Used if keyType is a header
    * - customKeyGenerator: Custom function for key extraction
    */
-  keyType?: "ip" | "user-agent" | "header:X-API-KEY" | "path" | "custom";
+  keyType?: "ip" | "user-agent" | `header:${string}` | "path" | "custom";
   headerName?: string;
   customKeyGenerator?: (req: any) => string;
 
+  /**
+   * Proxies allowed to report the client address through `Forwarded` or
+   * `X-Forwarded-For`, used by the 'ip' key type and by access lists.
+   * - true: trust every proxy
+   * - number: trust this many proxies nearest to the server
+   * - string[]: trust proxies in these CIDR ranges
+   * Default: use the address the framework reports (`req.ip`).
+   */
+  trustProxy?: boolean | number | string[];
+
+  /**
+   * Group IPv6 clients by network for the 'ip' key type, e.g. 64 to count a
+   * whole /64 as one client. IPv4 addresses are unaffected.
+   */
+  ipv6PrefixLength?: number;
+
   /**
    * Maximum number of allowed actions (requests) within the defined time window.
    * Can be a number or a function that returns a number based on request context.
@@ -23,13 +41,112 @@ export interface LimiterConfig {
    */
   windowInSeconds?: number;
 
+  /**
+   * Units each request consumes from the limit. Can be a number or a
+   * function of the request, e.g. to charge bulk endpoints more.
+   * A request whose cost does not fit is rejected without consuming anything.
+   * Default: 1
+   */
+  cost?: number | ((req: any) => number);
+
   /**
    * Rate limiting strategy to use.
    * - 'fixed': Simple fixed window (default)
    * - 'sliding': Accurate sliding window
    * - 'tokenBucket': Smooth burst control
+   * - 'slidingCounter': Approximate sliding window with constant memory per key
+   * - 'gcra': Generic cell rate algorithm, token bucket semantics with one timestamp per key
+   * - 'concurrency': At most `limit` requests in flight per key
    */
-  strategy?: "fixed" | "sliding" | "tokenBucket";
+  strategy?:
+    | "fixed"
+    | "sliding"
+    | "tokenBucket"
+    | "slidingCounter"
+    | "gcra"
+    | "concurrency";
+
+  /**
+   * Several limits enforced together on every key, e.g. 10 per second and
+   * 1000 per hour. A request is counted against every rule only if all of
+   * them allow it, and the decision reports the binding rule. Replaces
+   * `limit`, `windowInSeconds` and `strategy`.
+   */
+  rules?: RateLimitRule[];
+
+  /**
+   * Settings for the 'gcra' strategy. By default `limit` requests are spread
+   * evenly over the window and up to `limit` may arrive back to back.
+   */
+  gcra?: GcraConfig;
+
+  /**
+   * Delay excess requests instead of rejecting them. Requests for a key are
+   * released at the limit's rate (`windowInSeconds / limit` apart), excess
+   * requests wait in a per-key queue, and a request is rejected only when
+   * the queue is full or its wait would exceed `maxWaitMs`. Replaces the
+   * strategy's decision. Queues are kept per process.
+   */
+  throttle?: ThrottleConfig;
+
+  /**
+   * Settings for the 'concurrency' strategy.
+   */
+  concurrency?: ConcurrencyConfig;
+
+  /**
+   * Keys and clients that are never limited: IPv4/IPv6 addresses and CIDR
+   * ranges (matched against the client IP), exact keys, glob patterns and
+   * predicates. Pass an `AccessList` to update it at runtime.
+   */
+  allowlist?: AccessListEntry[] | AccessList;
+
+  /**
+   * Keys and clients that are always rejected, in the same formats as
+   * `allowlist`. Takes precedence over the allowlist.
+   */
+  denylist?: AccessListEntry[] | AccessList;
+
+  /**
+   * Ban repeat offenders: a key rejected `rejections` times within
+   * `periodInSeconds` is blocked outright, for longer on each ban. Ban state
+   * is kept in the limiter's store next to the counters.
+   */
+  penalty?: PenaltyConfig;
+
+  /**
+   * Reject keys banned by `penalty` or `ban()`, including bans another
+   * limiter wrote to the same store. Costs a store read per request; set to
+   * false to skip it when no limiter sharing the store bans keys. Limiters
+   * with `penalty`, and any limiter once it has called `ban()`, always
+   * check. Default: true
+   */
+  enforceBans?: boolean;
+
+  /**
+   * Requests for which this returns true bypass the limiter entirely: they
+   * are neither counted nor given rate limit headers.
+   */
+  skip?: (req: any) => boolean | Promise<boolean>;
+
+  /**
+   * Refund requests that succeeded (status below 400) once the response has
+   * been sent, so only failures count, e.g. failed login attempts.
+   */
+  skipSuccessfulRequests?: boolean;
+
+  /**
+   * Refund requests that failed (status 400 or above, or the connection
+   * closed before the response was sent).
+   */
+  skipFailedRequests?: boolean;
+
+  /**
+   * Decides once the response has been sent whether a request counts;
+   * returning false refunds it. Use instead of `skipSuccessfulRequests` and
+   * `skipFailedRequests`.
+   */
+  shouldCount?: (req: any, res: any) => boolean | Promise<boolean>;
 
   /**
    * Event hooks for monitoring and debugging.
@@ -38,6 +155,8 @@ export interface LimiterConfig {
   onReset?: (key: string) => void;
   onPass?: (key: string, req?: any) => void;
   onError?: (error: Error) => void;
+  onBan?: (key: string, durationMs: number, level: number) => void;
+  onUnban?: (key: string) => void;
 
   /**
    * Enable debug logging for all rate limiting decisions.
@@ -54,6 +173,17 @@ export interface LimiterConfig {
    */
   silent?: boolean;
 
+  /**
+   * Rate limit headers the middleware adapters send on allowed and rejected
+   * responses.
+   * - 'legacy': X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset
+   * - 'draft': IETF draft RateLimit and RateLimit-Policy
+   * - 'both' or true: both families (default)
+   * - false: no headers at all
+   * Rejected responses also carry Retry-After unless this is false.
+   */
+  headers?: boolean | "legacy" | "draft" | "both";
+
   /**
    * Configuration for rate limiter.
    * This includes settings for memory store, cleanup intervals, and more.
@@ -65,8 +195,69 @@ export interface LimiterConfig {
    * Max keys to clean per batch (default: 1000)
    */
   limiterConfig?: RateLimiterConfig;
+
+  /**
+   * Storage backend shared by the strategy for its per-key state.
+   * Defaults to the in-memory heap + LRU store sized by `limiterConfig`.
+   * Provide your own implementation to back limits with shared storage.
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Name of an in-memory store to share with every other limiter using the
+   * same name. By default each limiter owns a private store, so limiters
+   * never see each other's counters. Ignored when `store` is set.
+   */
+  sharedStore?: string;
+
+  /**
+   * Persist limiter state across restarts: load a snapshot from `path` on
+   * startup and save one when the process receives a shutdown signal.
+   * Requires a store that supports `entries` (the in-memory store does).
+   */
+  persistence?: PersistenceConfig;
 }
 
+export type RateLimitRule = {
+  limit: number | ((req: any) => number);
+  windowInSeconds: number;
+  strategy?: "fixed" | "sliding" | "tokenBucket" | "slidingCounter" | "gcra"; // Default: 'fixed'
+};
+
+export type PersistenceConfig = {
+  path: string; // Snapshot file, created if missing
+  signals?: NodeJS.Signals[]; // Signals that trigger a save (default: ["SIGTERM"])
+};
+
+export type GcraConfig = {
+  emissionIntervalMs?: number; // Time between requests at the sustained rate (default: window / limit)
+  burst?: number; // Requests allowed back to back (default: limit)
+};
+
+export type ThrottleConfig = {
+  maxQueueLength?: number; // Requests allowed to wait per key (default: 10)
+  maxWaitMs?: number; // Longest a request may wait before being rejected (default: 10000)
+};
+
+export type ConcurrencyConfig = {
+  maxHoldMs?: number; // Leases not released within this time expire (default: 60000)
+};
+
+/**
+ * An allowlist/denylist entry: an IP address or CIDR range, an exact key, a
+ * glob pattern (`*`, `?`) or a predicate on the key and request.
+ */
+export type AccessListEntry =
+  | string
+  | ((key: string, req?: any) => boolean | Promise<boolean>);
+
+export type PenaltyConfig = {
+  rejections?: number; // Rejections within the period that trigger a ban (default: 5)
+  periodInSeconds?: number; // Period in which rejections are counted (default: 60)
+  banDurationsInSeconds?: number[]; // Duration of each successive ban; the last one repeats (default: [60, 600, 3600])
+  forgetAfterSeconds?: number; // Quiet time after which offences are forgotten (default: 86400)
+};
+
 export type RateLimiterConfig = {
   maxStoreSize?: number; // Max number of keys (default: 1,000,000)
   cleanupInterval?: number; // Calls between cleanups (default: 1000)
@@ -74,14 +265,189 @@ export type RateLimiterConfig = {
   maxBatchCleanup?: number; // Max keys to clean per batch (default: 1000)
 };
 
+/**
+ * Asynchronous key/value storage used by every strategy.
+ *
+ * Values are plain JSON-serializable data. Strategies never mutate a value
+ * returned by `get`; they compute a new one and write it back with
+ * `compareAndSet`, retrying when another writer got there first.
+ */
+export interface RateLimitStore {
+  /**
+   * Returns the value stored under `key`, or `undefined` if it is missing or expired.
+   */
+  get<T = any>(key: string): Promise<T | undefined>;
+
+  /**
+   * Stores `value` under `key`. When `ttlMs` is given the key expires after
+   * that many milliseconds, otherwise it lives until deleted or evicted.
+   */
+  set<T = any>(key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /**
+   * Adds `amount` (default 1) to the numeric value under `key`, treating a
+   * missing key as 0, and returns the new value. `ttlMs` only applies when
+   * the key is created by this call.
+   */
+  increment(key: string, amount?: number, ttlMs?: number): Promise<number>;
+
+  /**
+   * Removes `key` from the store.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Atomically replaces the value under `key` with `value` if the stored value
+   * is structurally equal to `expected` (`undefined` meaning "missing").
+   * Returns `true` if the value was written.
+   */
+  compareAndSet<T = any>(
+    key: string,
+    expected: T | undefined,
+    value: T,
+    ttlMs?: number
+  ): Promise<boolean>;
+
+  /**
+   * Removes every key from the store.
+   */
+  clear?(): Promise<void>;
+
+  /**
+   * Lists every live entry whose key starts with `prefix`. Needed for snapshots.
+   */
+  entries?(prefix?: string): Promise<StoreEntry[]>;
+
+  /**
+   * Optional atomic implementations of the built-in algorithms (for example
+   * server-side scripts). When present, strategies call these instead of the
+   * generic compare-and-set loop. They must read and write the same value
+   * shapes as the strategies do, and count `cost` units (default 1) all or
+   * nothing.
+   */
+  consumeFixedWindow?(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult>;
+  consumeSlidingWindow?(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult>;
+  consumeTokenBucket?(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult>;
+  consumeSlidingCounter?(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult>;
+  consumeGcra?(
+    key: string,
+    emissionIntervalMs: number,
+    burst: number,
+    now: number,
+    cost?: number
+  ): Promise<ConsumeResult>;
+}
+
+/**
+ * A stored value with its absolute expiry time (`null` if it never expires).
+ */
+export type StoreEntry = {
+  key: string;
+  value: any;
+  expiresAt: number | null;
+};
+
+/**
+ * Serialized limiter state, as produced by `RateLimiter.snapshot()`.
+ */
+export type RateLimiterSnapshot = {
+  version: number;
+  strategy: string;
+  createdAt: number;
+  entries: StoreEntry[];
+};
+
+/**
+ * Outcome of counting one request against a key in a single atomic step.
+ */
+export type ConsumeResult = {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+  limit?: number; // Limit the decision was made against, when the strategy reports it
+  retryAfterMs?: number; // Exact wait before the next request fits, when the strategy knows it
+  rule?: number; // Index of the binding rule when limits are configured as `rules`
+  leaseId?: string; // Lease taken by an allowed request, for strategies that hold capacity ('concurrency')
+  exceedsLimit?: boolean; // Set by the limiter: rejected because the cost is larger than the limit, so it can never fit
+};
+
 export interface RateLimitStrategy {
   isAllowed(key: string, req?: any): boolean | Promise<boolean>;
-  getState?(key: string): RateLimitState | Promise<RateLimitState>;
+  /**
+   * Counts `cost` units against `key` atomically; when they do not all fit,
+   * nothing is consumed.
+   */
+  consume?(key: string, cost: number, req?: any): Promise<ConsumeResult>;
+  getState?(key: string, req?: any): RateLimitState | Promise<RateLimitState>;
   reset?(key: string): void | Promise<void>;
+  /**
+   * Ends the lease an allowed request holds, identified by the decision's
+   * `leaseId` or by the request object it was checked with.
+   */
+  release?(key: string, lease: string | object): Promise<void>;
+  /**
+   * Gives back `cost` units consumed for `key` earlier, e.g. for a request
+   * that turned out not to count.
+   */
+  refund?(key: string, cost: number, req?: any): Promise<void>;
+  stopGC?(): void;
+  snapshot?(): Promise<StoreEntry[]>;
+  restore?(entries: StoreEntry[]): Promise<number>;
 }
 
 export type RateLimitState = {
   remaining: number;
   resetAt: number;
   limit: number;
+  retryAfterMs?: number; // Exact wait before the next request fits, when the strategy knows it
+};
+
+/**
+ * Everything known about one rate limiting decision, computed in the same
+ * atomic step that counted the request.
+ */
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Units left after this request
+  resetAt: number; // Epoch ms when the limit resets (strategy specific)
+  retryAfterMs: number; // 0 when allowed or when retrying cannot help, otherwise how long to wait before retrying
+  strategy: string;
+  key: string;
+  consumed: number; // Units counted against the key by this request (0 if nothing was counted)
+  leaseId?: string; // Hand to `release` once the request completes ('concurrency')
+  banned?: boolean; // Rejected because the key is banned
+  exceedsLimit?: boolean; // Rejected because the cost is larger than the limit; retrying cannot help
+  access?: "allowlist" | "denylist"; // Decided by an access list instead of the limit
+  /** The rule that decided the request, when limits are configured as `rules`. */
+  rule?: {
+    index: number;
+    limit: number;
+    windowInSeconds: number;
+    strategy: string;
+  };
 };
@@ -0,0 +1,119 @@
+import { CidrTrie, formatIp, parseIp } from "./ip";
+
+export interface ClientIpOptions {
+  /**
+   * Which proxies in front of the server may report the client address.
+   * - false/undefined: use the address the framework reports (`req.ip`)
+   * - true: trust every proxy; the client is the leftmost forwarded address
+   * - number: trust this many proxies nearest to the server
+   * - string[]: trust proxies whose address lies in these CIDR ranges
+   */
+  trustProxy?: boolean | number | string[];
+}
+
+/**
+ * Extracts the address from one `Forwarded` / `X-Forwarded-For` element:
+ * strips quotes, IPv6 brackets and ports.
+ */
+function cleanAddress(value: string): string {
+  let address = value.trim().replace(/^"|"$/g, "");
+  if (address.startsWith("[")) {
+    address = address.slice(1, address.indexOf("]"));
+  } else if (address.split(":").length === 2) {
+    address = address.split(":")[0]; // IPv4 with a port
+  }
+  return address;
+}
+
+/**
+ * Forwarded-for addresses, client first, from the RFC 7239 `Forwarded`
+ * header or, without it, `X-Forwarded-For`.
+ */
+function forwardedChain(headers: Record<string, any> = {}): string[] {
+  const forwarded = headers["forwarded"];
+  if (typeof forwarded === "string" && forwarded.length > 0) {
+    return forwarded.split(",").map((element) => {
+      const pair = element
+        .split(";")
+        .map((part) => part.trim())
+        .find((part) => part.toLowerCase().startsWith("for="));
+      // Elements without `for`, or with "unknown"/obfuscated nodes, yield ""
+      return pair ? cleanAddress(pair.slice(4)) : "";
+    });
+  }
+  const xff = headers["x-forwarded-for"];
+  const value = Array.isArray(xff) ? xff.join(",") : xff;
+  if (typeof value !== "string" || value.length === 0) return [];
+  return value.split(",").map(cleanAddress);
+}
+
+/**
+ * Rewrites IPv4-mapped IPv6 addresses as IPv4 and IPv6 addresses in
+ * canonical form. Returns anything that is not an IP unchanged.
+ */
+export function normalizeIp(address: string): string {
+  const bytes = parseIp(address);
+  return bytes ? formatIp(bytes) : address;
+}
+
+/**
+ * Replaces an IPv6 address with its network of `prefixLength` bits, e.g.
+ * `2001:db8:1:2::/64`, so every address a client can rotate through maps to
+ * one key. IPv4 addresses are returned unchanged.
+ */
+export function bucketIp(address: string, prefixLength: number): string {
+  const bytes = parseIp(address);
+  if (!bytes || bytes.length === 4) return address;
+  const masked = bytes.map((byte, i) => {
+    const bits = Math.min(8, Math.max(0, prefixLength - i * 8));
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+  return `${formatIp(masked)}/${prefixLength}`;
+}
+
+/**
+ * Creates a function returning the normalized client address of a request.
+ * With `trustProxy`, the forwarded chain is walked from the server outwards
+ * and the first address not belonging to a trusted proxy is the client.
+ */
+export function createClientIpResolver(
+  options: ClientIpOptions = {}
+): (req: any) => string | undefined {
+  const { trustProxy } = options;
+  const peerAddress = (req: any): string | undefined =>
+    req?.socket?.remoteAddress || req?.connection?.remoteAddress || req?.ip;
+
+  if (!trustProxy) {
+    return (req) => {
+      const address =
+        req?.ip || req?.socket?.remoteAddress || req?.connection?.remoteAddress;
+      return address ? normalizeIp(address) : undefined;
+    };
+  }
+
+  let isTrusted: (address: string, hop: number) => boolean;
+  if (trustProxy === true) {
+    isTrusted = () => true;
+  } else if (typeof trustProxy === "number") {
+    isTrusted = (_, hop) => hop < trustProxy;
+  } else {
+    const trie = new CidrTrie();
+    trustProxy.forEach((range) => trie.add(range));
+    isTrusted = (address) => trie.contains(address);
+  }
+
+  return (req) => {
+    const peer = peerAddress(req);
+    if (!peer) return undefined;
+    // Server-side first: the peer, then forwarded addresses right to left
+    const chain = [peer, ...forwardedChain(req?.headers).reverse()];
+    let client = normalizeIp(peer);
+    for (let hop = 0; hop < chain.length - 1; hop++) {
+      if (!isTrusted(client, hop)) break;
+      const next = chain[hop + 1];
+      if (!parseIp(next)) break; // Unknown or malformed: stop at the last good hop
+      client = normalizeIp(next);
+    }
+    return client;
+  };
+}
@@ -1,4 +1,6 @@
-import { LimiterConfig } from "../types";
+import { LimiterConfig, RateLimitStore } from "../types";
+import { AccessList } from "../core/AccessList";
+import { looksLikeCidr, parseCidr } from "./ip";
 
 export interface ValidationError {
   field: string;
@@ -32,11 +34,304 @@ export function validateConfig(config: LimiterConfig): ValidationError[] {
   // Validate strategy
   if (
     config.strategy &&
-    !["fixed", "sliding", "tokenBucket"].includes(config.strategy)
+    ![
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+      "concurrency",
+    ].includes(config.strategy)
   ) {
     errors.push({
       field: "strategy",
-      message: "Strategy must be one of: fixed, sliding, tokenBucket",
+      message:
+        "Strategy must be one of: fixed, sliding, tokenBucket, slidingCounter, gcra, concurrency",
+    });
+  }
+
+  // Validate rules
+  if (config.rules !== undefined) {
+    if (!Array.isArray(config.rules) || config.rules.length === 0) {
+      errors.push({
+        field: "rules",
+        message: "rules must be a non-empty array",
+      });
+    } else {
+      config.rules.forEach((rule, i) => {
+        if (
+          typeof rule.limit !== "function" &&
+          (typeof rule.limit !== "number" || !(rule.limit > 0))
+        ) {
+          errors.push({
+            field: `rules[${i}].limit`,
+            message: "limit must be a positive number or a function",
+          });
+        }
+        if (
+          typeof rule.windowInSeconds !== "number" ||
+          !(rule.windowInSeconds > 0)
+        ) {
+          errors.push({
+            field: `rules[${i}].windowInSeconds`,
+            message: "windowInSeconds must be a positive number",
+          });
+        }
+        if (
+          rule.strategy !== undefined &&
+          ![
+            "fixed",
+            "sliding",
+            "tokenBucket",
+            "slidingCounter",
+            "gcra",
+          ].includes(rule.strategy)
+        ) {
+          errors.push({
+            field: `rules[${i}].strategy`,
+            message:
+              "strategy must be one of: fixed, sliding, tokenBucket, slidingCounter, gcra",
+          });
+        }
+      });
+    }
+    if (config.throttle) {
+      errors.push({
+        field: "throttle",
+        message: "throttle cannot be combined with rules",
+      });
+    }
+  }
+
+  // Validate cost
+  if (
+    config.cost !== undefined &&
+    typeof config.cost !== "function" &&
+    (!Number.isInteger(config.cost) || config.cost < 0)
+  ) {
+    errors.push({
+      field: "cost",
+      message: "cost must be a non-negative integer or a function",
+    });
+  }
+
+  // Validate gcra
+  if (config.gcra) {
+    const { emissionIntervalMs, burst } = config.gcra;
+    if (
+      emissionIntervalMs !== undefined &&
+      (typeof emissionIntervalMs !== "number" || !(emissionIntervalMs > 0))
+    ) {
+      errors.push({
+        field: "gcra.emissionIntervalMs",
+        message: "emissionIntervalMs must be a positive number",
+      });
+    }
+    if (burst !== undefined && (!Number.isInteger(burst) || burst < 1)) {
+      errors.push({
+        field: "gcra.burst",
+        message: "burst must be a positive integer",
+      });
+    }
+  }
+
+  // Validate concurrency
+  if (
+    config.concurrency?.maxHoldMs !== undefined &&
+    (typeof config.concurrency.maxHoldMs !== "number" ||
+      !(config.concurrency.maxHoldMs > 0))
+  ) {
+    errors.push({
+      field: "concurrency.maxHoldMs",
+      message: "maxHoldMs must be a positive number",
+    });
+  }
+
+  // Validate allowlist and denylist
+  for (const field of ["allowlist", "denylist"] as const) {
+    const list = config[field];
+    if (list === undefined || list instanceof AccessList) continue;
+    if (!Array.isArray(list)) {
+      errors.push({
+        field,
+        message: `${field} must be an array or an AccessList`,
+      });
+      continue;
+    }
+    list.forEach((entry, i) => {
+      if (typeof entry === "function") return;
+      if (typeof entry !== "string") {
+        errors.push({
+          field: `${field}[${i}]`,
+          message: "entries must be strings or functions",
+        });
+        return;
+      }
+      if (looksLikeCidr(entry)) {
+        try {
+          parseCidr(entry);
+        } catch (error) {
+          errors.push({
+            field: `${field}[${i}]`,
+            message: (error as Error).message,
+          });
+        }
+      }
+    });
+  }
+
+  // Validate trustProxy
+  const { trustProxy } = config;
+  if (
+    trustProxy !== undefined &&
+    typeof trustProxy !== "boolean" &&
+    !(Number.isInteger(trustProxy) && (trustProxy as number) >= 0) &&
+    !Array.isArray(trustProxy)
+  ) {
+    errors.push({
+      field: "trustProxy",
+      message:
+        "trustProxy must be a boolean, a non-negative integer or an array of CIDR ranges",
+    });
+  } else if (Array.isArray(trustProxy)) {
+    trustProxy.forEach((range, i) => {
+      try {
+        parseCidr(range);
+      } catch (error) {
+        errors.push({
+          field: `trustProxy[${i}]`,
+          message: (error as Error).message,
+        });
+      }
+    });
+  }
+
+  // Validate ipv6PrefixLength
+  if (
+    config.ipv6PrefixLength !== undefined &&
+    (!Number.isInteger(config.ipv6PrefixLength) ||
+      config.ipv6PrefixLength < 1 ||
+      config.ipv6PrefixLength > 128)
+  ) {
+    errors.push({
+      field: "ipv6PrefixLength",
+      message: "ipv6PrefixLength must be an integer between 1 and 128",
+    });
+  }
+
+  // Validate enforceBans
+  if (
+    config.enforceBans !== undefined &&
+    typeof config.enforceBans !== "boolean"
+  ) {
+    errors.push({
+      field: "enforceBans",
+      message: "enforceBans must be a boolean",
+    });
+  }
+
+  // Validate penalty
+  if (config.penalty) {
+    const {
+      rejections,
+      periodInSeconds,
+      banDurationsInSeconds,
+      forgetAfterSeconds,
+    } = config.penalty;
+    if (
+      rejections !== undefined &&
+      (!Number.isInteger(rejections) || rejections < 1)
+    ) {
+      errors.push({
+        field: "penalty.rejections",
+        message: "rejections must be a positive integer",
+      });
+    }
+    if (
+      periodInSeconds !== undefined &&
+      (typeof periodInSeconds !== "number" || !(periodInSeconds > 0))
+    ) {
+      errors.push({
+        field: "penalty.periodInSeconds",
+        message: "periodInSeconds must be a positive number",
+      });
+    }
+    if (
+      banDurationsInSeconds !== undefined &&
+      (!Array.isArray(banDurationsInSeconds) ||
+        banDurationsInSeconds.length === 0 ||
+        banDurationsInSeconds.some(
+          (seconds) => typeof seconds !== "number" || !(seconds > 0)
+        ))
+    ) {
+      errors.push({
+        field: "penalty.banDurationsInSeconds",
+        message:
+          "banDurationsInSeconds must be a non-empty array of positive numbers",
+      });
+    }
+    if (
+      forgetAfterSeconds !== undefined &&
+      (typeof forgetAfterSeconds !== "number" || !(forgetAfterSeconds >= 0))
+    ) {
+      errors.push({
+        field: "penalty.forgetAfterSeconds",
+        message: "forgetAfterSeconds must be a non-negative number",
+      });
+    }
+  }
+
+  // Validate throttle
+  if (config.throttle) {
+    const { maxQueueLength, maxWaitMs } = config.throttle;
+    if (
+      maxQueueLength !== undefined &&
+      (!Number.isInteger(maxQueueLength) || maxQueueLength < 0)
+    ) {
+      errors.push({
+        field: "throttle.maxQueueLength",
+        message: "maxQueueLength must be a non-negative integer",
+      });
+    }
+    if (
+      maxWaitMs !== undefined &&
+      (typeof maxWaitMs !== "number" || !(maxWaitMs >= 0))
+    ) {
+      errors.push({
+        field: "throttle.maxWaitMs",
+        message: "maxWaitMs must be a non-negative number",
+      });
+    }
+  }
+
+  // Validate headers
+  if (
+    config.headers !== undefined &&
+    typeof config.headers !== "boolean" &&
+    !["legacy", "draft", "both"].includes(config.headers)
+  ) {
+    errors.push({
+      field: "headers",
+      message: "headers must be a boolean or one of: legacy, draft, both",
+    });
+  }
+
+  // Validate response counting
+  for (const field of ["skip", "shouldCount"] as const) {
+    if (config[field] !== undefined && typeof config[field] !== "function") {
+      errors.push({ field, message: `${field} must be a function` });
+    }
+  }
+  if (config.shouldCount && config.skipSuccessfulRequests) {
+    errors.push({
+      field: "skipSuccessfulRequests",
+      message: "skipSuccessfulRequests cannot be combined with shouldCount",
+    });
+  }
+  if (config.shouldCount && config.skipFailedRequests) {
+    errors.push({
+      field: "skipFailedRequests",
+      message: "skipFailedRequests cannot be combined with shouldCount",
     });
   }
 
@@ -53,6 +348,58 @@ export function validateConfig(config: LimiterConfig): ValidationError[] {
     });
   }
 
+  // Validate store
+  const store = config.store;
+  if (store) {
+    const required: (keyof RateLimitStore)[] = [
+      "get",
+      "set",
+      "increment",
+      "delete",
+      "compareAndSet",
+    ];
+    const missing = required.filter(
+      (method) => typeof store[method] !== "function"
+    );
+    if (missing.length > 0) {
+      errors.push({
+        field: "store",
+        message: `store must implement: ${missing.join(", ")}`,
+      });
+    }
+  }
+
+  // Validate sharedStore
+  if (
+    config.sharedStore !== undefined &&
+    (typeof config.sharedStore !== "string" || config.sharedStore.trim() === "")
+  ) {
+    errors.push({
+      field: "sharedStore",
+      message: "sharedStore must be a non-empty string",
+    });
+  }
+
+  // Validate persistence
+  if (
+    config.persistence &&
+    (typeof config.persistence.path !== "string" ||
+      config.persistence.path.trim() === "")
+  ) {
+    errors.push({
+      field: "persistence.path",
+      message: "persistence.path must be a non-empty string",
+    });
+  } else if (
+    config.persistence &&
+    (typeof process === "undefined" || !process.versions?.node)
+  ) {
+    errors.push({
+      field: "persistence",
+      message: "persistence writes snapshot files and requires Node.js",
+    });
+  }
+
   // Validate limiterConfig
   if (config.limiterConfig) {
     if (
@@ -0,0 +1,82 @@
+import { LimiterConfig, RateLimitDecision } from "../types";
+
+/**
+ * Builds the rate limit headers for a decision, following the `headers`
+ * option: legacy `X-RateLimit-*`, the IETF draft `RateLimit` and
+ * `RateLimit-Policy` fields, or both (the default). Rejected decisions also
+ * get `Retry-After`. Returns no headers when `headers` is false.
+ */
+export function rateLimitHeaders(
+  decision: RateLimitDecision,
+  config: Pick<Partial<LimiterConfig>, "headers" | "windowInSeconds" | "rules">
+): Record<string, string> {
+  const mode = config.headers ?? "both";
+  if (mode === false) return {};
+  const headers: Record<string, string> = {};
+  const resetSeconds = Math.max(
+    0,
+    Math.ceil((decision.resetAt - Date.now()) / 1000)
+  );
+
+  if (mode === true || mode === "both" || mode === "legacy") {
+    headers["X-RateLimit-Limit"] = String(decision.limit);
+    headers["X-RateLimit-Remaining"] = String(decision.remaining);
+    // Epoch seconds, as most clients of these headers expect
+    headers["X-RateLimit-Reset"] = String(Math.ceil(decision.resetAt / 1000));
+  }
+  if (mode === true || mode === "both" || mode === "draft") {
+    headers[
+      "RateLimit"
+    ] = `limit=${decision.limit}, remaining=${decision.remaining}, reset=${resetSeconds}`;
+    headers["RateLimit-Policy"] = policy(decision, config);
+  }
+  // Retrying will not help a client on the denylist or a cost above the limit
+  if (
+    !decision.allowed &&
+    decision.access !== "denylist" &&
+    !decision.exceedsLimit
+  ) {
+    headers["Retry-After"] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+  return headers;
+}
+
+/**
+ * Quota policies for `RateLimit-Policy`: every rule when limits are
+ * configured as `rules`, otherwise the single limit and window.
+ */
+function policy(
+  decision: RateLimitDecision,
+  config: Pick<Partial<LimiterConfig>, "windowInSeconds" | "rules">
+): string {
+  if (config.rules && decision.rule) {
+    return config.rules
+      .map((rule, i) => {
+        // Adaptive limits of other rules are unknown without evaluating them
+        const limit =
+          i === decision.rule!.index ? decision.rule!.limit : rule.limit;
+        return typeof limit === "number"
+          ? `${limit};w=${rule.windowInSeconds}`
+          : undefined;
+      })
+      .filter((entry) => entry !== undefined)
+      .join(", ");
+  }
+  // Concurrency limits have no time window to advertise
+  if (decision.strategy === "concurrency") return String(decision.limit);
+  return `${decision.limit};w=${config.windowInSeconds || 60}`;
+}
+
+/**
+ * Sets `headers` on a Node/Express response (`setHeader`) or a Fastify
+ * reply (`header`).
+ */
+export function setHeaders(res: any, headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof res?.setHeader === "function") {
+      res.setHeader(name, value);
+    } else if (typeof res?.header === "function") {
+      res.header(name, value);
+    }
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * A parsed address: 4 bytes for IPv4, 16 for IPv6.
+ */
+export type IpBytes = number[];
+
+// Plain checks instead of node:net, so edge runtimes can load this module
+const IPV4_PART = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4 = new RegExp(`^${IPV4_PART}(?:\\.${IPV4_PART}){3}$`);
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+const ZONE = /^[0-9a-z.:-]+$/i;
+
+function isIPv4(address: string): boolean {
+  return IPV4.test(address);
+}
+
+function isIPv6(address: string): boolean {
+  const [text, zone, extra] = address.split("%");
+  if (extra !== undefined || (zone !== undefined && !ZONE.test(zone))) {
+    return false;
+  }
+  // An embedded IPv4 address stands for the last two groups
+  const lastColon = text.lastIndexOf(":");
+  const tail = text.slice(lastColon + 1);
+  const embedded = lastColon !== -1 && tail.includes(".");
+  if (embedded && !isIPv4(tail)) return false;
+  const groupsText = embedded ? text.slice(0, lastColon + 1) + "0:0" : text;
+
+  const halves = groupsText.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((half) => (half ? half.split(":") : []));
+  if (!groups.every((group) => IPV6_GROUP.test(group))) return false;
+  return halves.length === 2 ? groups.length <= 7 : groups.length === 8;
+}
+
+function parseIPv4(address: string): IpBytes {
+  return address.split(".").map(Number);
+}
+
+function parseIPv6(address: string): IpBytes {
+  // Drop a zone index such as "%eth0"
+  let text = address.split("%")[0];
+  const tail: number[] = [];
+  const lastColon = text.lastIndexOf(":");
+  if (isIPv4(text.slice(lastColon + 1))) {
+    tail.push(...parseIPv4(text.slice(lastColon + 1)));
+    text = text.slice(0, lastColon + 1) + "0:0";
+  }
+  const [head, rest] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const restGroups = rest ? rest.split(":") : [];
+  const missing =
+    rest === undefined ? 0 : 8 - headGroups.length - restGroups.length;
+  const groups = [
+    ...headGroups,
+    ...new Array(missing).fill("0"),
+    ...restGroups,
+  ].map((group) => parseInt(group, 16));
+  const bytes = groups.flatMap((group) => [group >> 8, group & 0xff]);
+  if (tail.length > 0) bytes.splice(12, 4, ...tail);
+  return bytes;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses
+ * (`::ffff:1.2.3.4`) are returned as the IPv4 address they carry.
+ * @returns The address bytes, or `undefined` if `address` is not an IP
+ */
+export function parseIp(address: string): IpBytes | undefined {
+  if (isIPv4(address)) return parseIPv4(address);
+  if (!isIPv6(address)) return undefined;
+  const bytes = parseIPv6(address);
+  const mapped =
+    bytes.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+  return mapped ? bytes.slice(12) : bytes;
+}
+
+/**
+ * True if `entry` is an address, or `address/...` and so meant as a CIDR
+ * range, as opposed to a path or key that merely contains "/". The range
+ * itself may still be invalid; `parseCidr` checks it.
+ */
+export function looksLikeCidr(entry: string): boolean {
+  const slash = entry.indexOf("/");
+  return parseIp(slash === -1 ? entry : entry.slice(0, slash)) !== undefined;
+}
+
+/**
+ * Parses `address/prefix` (or a bare address, meaning a single host).
+ * @throws Error if `range` is not a valid IPv4 or IPv6 CIDR range
+ */
+export function parseCidr(range: string): { bytes: IpBytes; prefix: number } {
+  const [address, prefixText, extra] = range.split("/");
+  const bytes = parseIp(address);
+  const bits = isIPv6(address) ? 128 : 32;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  // A mapped IPv6 range such as ::ffff:10.0.0.0/104 is the IPv4 range /8
+  const mapped = bits === 128 && bytes?.length === 4;
+  if (
+    !bytes ||
+    extra !== undefined ||
+    (prefixText !== undefined && !/^\d+$/.test(prefixText)) ||
+    prefix > bits ||
+    (mapped && prefix < 96)
+  ) {
+    throw new Error(`Invalid CIDR range: ${range}`);
+  }
+  return { bytes, prefix: mapped ? prefix - 96 : prefix };
+}
+
+type TrieNode = {
+  children: [TrieNode | undefined, TrieNode | undefined];
+  /** Ranges ending at this node (the same range may be added twice). */
+  terminals: number;
+};
+
+function newNode(): TrieNode {
+  return { children: [undefined, undefined], terminals: 0 };
+}
+
+function bitAt(bytes: IpBytes, index: number): 0 | 1 {
+  return ((bytes[index >> 3] >> (7 - (index & 7))) & 1) as 0 | 1;
+}
+
+/**
+ * Binary prefix trie of CIDR ranges. Looking up an address walks at most
+ * 32 (IPv4) or 128 (IPv6) nodes, however many ranges are stored.
+ */
+export class CidrTrie {
+  private roots = { 4: newNode(), 16: newNode() };
+
+  add(range: string): void {
+    const { bytes, prefix } = parseCidr(range);
+    let node = this.roots[bytes.length as 4 | 16];
+    for (let i = 0; i < prefix; i++) {
+      const bit = bitAt(bytes, i);
+      node = node.children[bit] ??= newNode();
+    }
+    node.terminals++;
+  }
+
+  /**
+   * Removes one occurrence of `range`.
+   * @returns true if the range was stored
+   */
+  remove(range: string): boolean {
+    const { bytes, prefix } = parseCidr(range);
+    let node: TrieNode | undefined = this.roots[bytes.length as 4 | 16];
+    for (let i = 0; i < prefix && node; i++) {
+      node = node.children[bitAt(bytes, i)];
+    }
+    if (!node || node.terminals === 0) return false;
+    node.terminals--;
+    return true;
+  }
+
+  /**
+   * True if `address` lies in any stored range.
+   */
+  contains(address: string): boolean {
+    const bytes = parseIp(address);
+    if (!bytes) return false;
+    let node: TrieNode | undefined = this.roots[bytes.length as 4 | 16];
+    for (let i = 0; node; i++) {
+      if (node.terminals > 0) return true;
+      if (i === bytes.length * 8) return false;
+      node = node.children[bitAt(bytes, i)];
+    }
+    return false;
+  }
+
+  clear(): void {
+    this.roots = { 4: newNode(), 16: newNode() };
+  }
+}
+
+/**
+ * Formats address bytes as a canonical IPv4 or (compressed) IPv6 string.
+ */
+export function formatIp(bytes: IpBytes): string {
+  if (bytes.length === 4) return bytes.join(".");
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i] << 8) | bytes[i + 1]);
+  // Compress the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j === i ? i + 1 : j;
+  }
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return (
+    hex.slice(0, bestStart).join(":") +
+    "::" +
+    hex.slice(bestStart + bestLength).join(":")
+  );
+}
@@ -1,24 +1,39 @@
-type KeyType = "ip" | "user-agent" | "header:X-API-KEY" | "path" | "custom";
+import { bucketIp, createClientIpResolver } from "./clientIp";
+
+type KeyType = "ip" | "user-agent" | `header:${string}` | "path" | "custom";
 
 export interface KeyGeneratorOptions {
   keyType?: KeyType;
   headerName?: string;
   customKeyGenerator?: (req: any) => string;
+  trustProxy?: boolean | number | string[];
+  ipv6PrefixLength?: number;
 }
 
 export function createKeyGenerator(
   options: KeyGeneratorOptions = {}
 ): (req: any) => string {
-  const { keyType = "ip", headerName, customKeyGenerator } = options;
+  const {
+    keyType = "ip",
+    headerName,
+    customKeyGenerator,
+    trustProxy,
+    ipv6PrefixLength,
+  } = options;
 
   if (keyType === "custom" && typeof customKeyGenerator === "function") {
     return customKeyGenerator;
   }
 
   switch (keyType) {
-    case "ip":
-      return (req) =>
-        req.ip || req.connection?.remoteAddress || "__unknown_ip__";
+    case "ip": {
+      const resolveIp = createClientIpResolver({ trustProxy });
+      return (req) => {
+        const ip = resolveIp(req);
+        if (!ip) return "__unknown_ip__";
+        return ipv6PrefixLength ? bucketIp(ip, ipv6PrefixLength) : ip;
+      };
+    }
     case "user-agent":
       return (req) => req.headers?.["user-agent"] || "__unknown_ua__";
     case "path":
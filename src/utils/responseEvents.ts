@@ -0,0 +1,45 @@
+/**
+ * The part of Node's `http.ServerResponse` needed to notice a disconnect.
+ */
+export interface ClosableResponse {
+  once(event: "close", listener: () => void): any;
+  writableFinished?: boolean;
+}
+
+/**
+ * Returns a signal that aborts if the connection closes before the response
+ * has been sent, i.e. when the client goes away.
+ */
+export function abortOnDisconnect(res: ClosableResponse): AbortSignal {
+  const controller = new AbortController();
+  res.once("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * The part of Node's `http.ServerResponse` needed to notice completion.
+ */
+export interface FinishableResponse {
+  once(event: "finish" | "close", listener: () => void): any;
+}
+
+/**
+ * Calls `callback` exactly once, when the response has been sent or the
+ * connection closed, whichever comes first. `finished` is false if the
+ * connection closed before the response was sent.
+ */
+export function onResponseDone(
+  res: FinishableResponse,
+  callback: (finished: boolean) => void
+): void {
+  let done = false;
+  const handler = (finished: boolean) => {
+    if (done) return;
+    done = true;
+    callback(finished);
+  };
+  res.once("finish", () => handler(true));
+  res.once("close", () => handler(false));
+}
@@ -0,0 +1,111 @@
+import { RateLimiterSnapshot, RateLimitStore, StoreEntry } from "../types";
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Reads every live entry under `prefix` from the store, with the prefix removed.
+ * @throws Error if the store cannot list its entries
+ */
+export async function exportEntries(
+  store: RateLimitStore,
+  prefix: string
+): Promise<StoreEntry[]> {
+  if (!store.entries) {
+    throw new Error("Store does not support snapshots");
+  }
+  const entries = await store.entries(prefix);
+  return entries.map((entry) => ({
+    ...entry,
+    key: entry.key.slice(prefix.length),
+  }));
+}
+
+/**
+ * Writes snapshot entries back under `prefix`, skipping entries that expired
+ * while the process was down and keeping the remaining time to live.
+ * @returns Number of entries restored
+ */
+export async function importEntries(
+  store: RateLimitStore,
+  prefix: string,
+  entries: StoreEntry[],
+  now: number = Date.now()
+): Promise<number> {
+  let restored = 0;
+  for (const entry of entries) {
+    if (entry.expiresAt !== null && entry.expiresAt <= now) continue;
+    await store.set(
+      prefix + entry.key,
+      entry.value,
+      entry.expiresAt === null ? undefined : entry.expiresAt - now
+    );
+    restored++;
+  }
+  return restored;
+}
+
+/**
+ * Checks that `snapshot` is a snapshot this version can read for `strategy`.
+ * @throws Error describing the first problem found
+ */
+export function assertValidSnapshot(
+  snapshot: RateLimiterSnapshot,
+  strategy: string
+): void {
+  if (!snapshot || typeof snapshot !== "object") {
+    throw new Error("Invalid snapshot");
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version: ${snapshot.version} (expected ${SNAPSHOT_VERSION})`
+    );
+  }
+  if (snapshot.strategy !== strategy) {
+    throw new Error(
+      `Snapshot strategy "${snapshot.strategy}" does not match limiter strategy "${strategy}"`
+    );
+  }
+  if (!Array.isArray(snapshot.entries)) {
+    throw new Error("Invalid snapshot: entries must be an array");
+  }
+}
+
+// Kept out of a literal import so bundlers for edge runtimes, where snapshot
+// files are unavailable, do not try to resolve node:fs
+const FS_MODULE = "fs/promises";
+
+function loadFs(): Promise<typeof import("fs/promises")> {
+  if (typeof process === "undefined" || !process.versions?.node) {
+    return Promise.reject(new Error("Snapshot files require Node.js"));
+  }
+  return import(FS_MODULE);
+}
+
+/**
+ * Reads a snapshot file.
+ * @returns The parsed snapshot, or null if the file does not exist
+ */
+export async function readSnapshotFile(
+  path: string
+): Promise<RateLimiterSnapshot | null> {
+  const { readFile } = await loadFs();
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Writes a snapshot file atomically (temporary file + rename).
+ */
+export async function writeSnapshotFile(
+  path: string,
+  snapshot: RateLimiterSnapshot
+): Promise<void> {
+  const { writeFile, rename } = await loadFs();
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(snapshot));
+  await rename(tempPath, path);
+}
@@ -0,0 +1,79 @@
+import { RateLimitStore } from "../types";
+
+/**
+ * Outcome of a read-modify-write step on a single store key.
+ */
+export type StoreMutation<T, R> = {
+  /** Value handed back to the caller. */
+  result: R;
+  /** New value to write; leave undefined to keep the stored value untouched. */
+  value?: T;
+  /** TTL for the new value in milliseconds. */
+  ttlMs?: number;
+};
+
+const MAX_CAS_ATTEMPTS = 100;
+
+/**
+ * Applies `mutate` to the value stored under `key` using compare-and-set,
+ * retrying when the value changed between the read and the write.
+ * @throws Error if the key stays contended for too many attempts
+ */
+export async function updateStoreValue<T, R>(
+  store: RateLimitStore,
+  key: string,
+  mutate: (current: T | undefined) => StoreMutation<T, R>
+): Promise<R> {
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const current = await store.get<T>(key);
+    const mutation = mutate(current);
+    if (mutation.value === undefined) {
+      return mutation.result;
+    }
+    if (
+      await store.compareAndSet(key, current, mutation.value, mutation.ttlMs)
+    ) {
+      return mutation.result;
+    }
+  }
+  throw new Error(`Rate limit store contention on key: ${key}`);
+}
+
+/**
+ * Creates a Promise-based lock for concurrency safety in JavaScript's event loop.
+ * @returns A function that acquires the lock and resolves to its release function
+ */
+export function createLock(): () => Promise<() => void> {
+  let lockPromise: Promise<void> = Promise.resolve();
+  return async function acquireLock() {
+    const currentLock = lockPromise;
+    let resolveLock: () => void;
+    lockPromise = new Promise((resolve) => {
+      resolveLock = resolve;
+    });
+    await currentLock;
+    return () => resolveLock!();
+  };
+}
+
+/**
+ * Creates a Promise-based lock per key, so requests for the same key are
+ * serialized while different keys proceed concurrently.
+ * @returns A function that acquires the lock for a key and resolves to its release function
+ */
+export function createKeyedLock(): (key: string) => Promise<() => void> {
+  const locks = new Map<string, Promise<void>>();
+  return async function acquireLock(key: string) {
+    const currentLock = locks.get(key);
+    let resolveLock: () => void;
+    const lockPromise = new Promise<void>((resolve) => {
+      resolveLock = resolve;
+    });
+    locks.set(key, lockPromise);
+    await currentLock;
+    return () => {
+      if (locks.get(key) === lockPromise) locks.delete(key);
+      resolveLock!();
+    };
+  };
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import express from "express";
+import Fastify from "fastify";
+import { AccessList } from "../src/core/AccessList";
+import { RateLimiter } from "../src/core/RateLimiter";
+import { CidrTrie, parseIp } from "../src/utils/ip";
+import { expressLimiter } from "../src/middleware/express";
+import { fastifyLimiter } from "../src/middleware/fastify";
+
+// 🧪 Allowlists and Denylists
+describe("CidrTrie", () => {
+  it("matches IPv4 and IPv6 ranges", () => {
+    const trie = new CidrTrie();
+    trie.add("10.0.0.0/8");
+    trie.add("192.168.1.17");
+    trie.add("2001:db8::/32");
+
+    expect(trie.contains("10.200.3.4")).toBe(true);
+    expect(trie.contains("11.0.0.1")).toBe(false);
+    expect(trie.contains("192.168.1.17")).toBe(true);
+    expect(trie.contains("192.168.1.18")).toBe(false);
+    expect(trie.contains("2001:db8:ffff::1")).toBe(true);
+    expect(trie.contains("2001:db9::1")).toBe(false);
+    expect(trie.contains("not-an-ip")).toBe(false);
+  });
+
+  it("treats IPv4-mapped IPv6 addresses as IPv4", () => {
+    const trie = new CidrTrie();
+    trie.add("127.0.0.0/8");
+    trie.add("::ffff:172.16.0.0/108");
+
+    expect(trie.contains("::ffff:127.0.0.1")).toBe(true);
+    expect(trie.contains("172.16.5.5")).toBe(true);
+    expect(parseIp("::ffff:1.2.3.4")).toEqual([1, 2, 3, 4]);
+  });
+
+  it("parses only valid IPv4 and IPv6 addresses", () => {
+    expect(parseIp("192.168.1.17")).toEqual([192, 168, 1, 17]);
+    expect(parseIp("fe80::1%eth0")).toEqual([
+      0xfe, 0x80, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+    ]);
+    expect(parseIp("::")).toHaveLength(16);
+    for (const invalid of [
+      "01.2.3.4",
+      "256.0.0.1",
+      "1.2.3",
+      "1::2::3",
+      ":1:2:3:4:5:6:7",
+      "1:2:3:4:5:6:7:8:9",
+      "::ffff:1.2.3",
+      "12345::",
+      "",
+    ]) {
+      expect(parseIp(invalid)).toBeUndefined();
+    }
+  });
+
+  it("removes ranges and rejects invalid ones", () => {
+    const trie = new CidrTrie();
+    trie.add("0.0.0.0/0");
+    expect(trie.contains("8.8.8.8")).toBe(true);
+    expect(trie.remove("0.0.0.0/0")).toBe(true);
+    expect(trie.contains("8.8.8.8")).toBe(false);
+
+    expect(() => trie.add("10.0.0.0/33")).toThrow(/Invalid CIDR/);
+    expect(() => trie.add("10.0.0/8")).toThrow(/Invalid CIDR/);
+  });
+});
+
+describe("AccessList", () => {
+  it("matches exact keys, globs, ranges and predicates", async () => {
+    const list = new AccessList([
+      "monitor-probe",
+      "internal-*",
+      "10.0.0.0/8",
+      async (key) => key.endsWith("@example.com"),
+    ]);
+
+    expect(await list.matches("monitor-probe")).toBe(true);
+    expect(await list.matches("internal-billing")).toBe(true);
+    expect(await list.matches("user", "10.1.2.3")).toBe(true);
+    expect(await list.matches("10.9.9.9")).toBe(true);
+    expect(await list.matches("ops@example.com")).toBe(true);
+    expect(await list.matches("user", "8.8.8.8")).toBe(false);
+  });
+
+  it("treats paths and keys containing slashes as keys", async () => {
+    const list = new AccessList([
+      "/health",
+      "/admin/*",
+      "tenant/42",
+      "GET /status?",
+    ]);
+
+    expect(await list.matches("/health")).toBe(true);
+    expect(await list.matches("/admin/users/7")).toBe(true);
+    expect(await list.matches("tenant/42")).toBe(true);
+    expect(await list.matches("tenant/43")).toBe(false);
+    expect(await list.matches("GET /status1")).toBe(true);
+    expect(await list.matches("/healthz")).toBe(false);
+
+    list.remove("/admin/*");
+    expect(await list.matches("/admin/users/7")).toBe(false);
+  });
+
+  it("can be updated at runtime", async () => {
+    const list = new AccessList();
+    expect(await list.matches("late-key")).toBe(false);
+
+    list.add("late-*");
+    expect(await list.matches("late-key")).toBe(true);
+    list.remove("late-*");
+    expect(await list.matches("late-key")).toBe(false);
+
+    list.set(["a", "b"]);
+    expect(list.list()).toEqual(["a", "b"]);
+  });
+});
+
+describe("Rate limiter access lists", () => {
+  it("never limits allowlisted keys and always rejects denylisted ones", async () => {
+    const limiter = new RateLimiter({
+      limit: 1,
+      windowInSeconds: 60,
+      allowlist: ["health-*"],
+      denylist: ["203.0.113.0/24"],
+    });
+
+    for (let i = 0; i < 3; i++) {
+      const decision = await limiter.check("health-check");
+      expect(decision).toMatchObject({ allowed: true, access: "allowlist" });
+    }
+    const denied = await limiter.check("client", { ip: "203.0.113.50" });
+    expect(denied).toMatchObject({ allowed: false, access: "denylist" });
+
+    // Listed requests are not counted
+    expect(await limiter.isAllowed("client", { ip: "198.51.100.1" })).toBe(
+      true
+    );
+  });
+
+  it("lets the denylist win over the allowlist", async () => {
+    const limiter = new RateLimiter({
+      allowlist: ["10.0.0.0/8"],
+      denylist: ["10.6.6.6"],
+    });
+
+    expect(await limiter.isAllowed("10.6.6.6")).toBe(false);
+    expect(await limiter.isAllowed("10.0.0.1")).toBe(true);
+  });
+
+  it("rejects invalid entries", () => {
+    expect(() => new RateLimiter({ allowlist: ["10.0.0.0/99"] })).toThrow(
+      /Invalid CIDR range/
+    );
+    expect(
+      () => new RateLimiter({ allowlist: ["/health", "/admin/*", "tenant/42"] })
+    ).not.toThrow();
+  });
+
+  it("applies a shared list in Express and Fastify", async () => {
+    const allowlist = new AccessList();
+    const config = { keyType: "ip" as const, limit: 1, allowlist };
+
+    const app = express();
+    app.use(expressLimiter(config));
+    app.get("/", (_, res) => res.send("OK"));
+    const fastify = Fastify();
+    fastify.addHook("onRequest", fastifyLimiter(config));
+    fastify.get("/", async () => "OK");
+
+    await request(app).get("/");
+    await fastify.inject({ url: "/" });
+    expect((await request(app).get("/")).statusCode).toBe(429);
+    expect((await fastify.inject({ url: "/" })).statusCode).toBe(429);
+
+    allowlist.add("127.0.0.1");
+    expect((await request(app).get("/")).statusCode).toBe(200);
+    expect((await fastify.inject({ url: "/" })).statusCode).toBe(200);
+  });
+
+  it("omits Retry-After for denylisted clients", async () => {
+    const app = express();
+    app.use(expressLimiter({ keyType: "ip", denylist: ["127.0.0.0/8"] }));
+    app.get("/", (_, res) => res.send("OK"));
+
+    const res = await request(app).get("/");
+    expect(res.statusCode).toBe(429);
+    expect(res.headers["retry-after"]).toBeUndefined();
+  });
+});
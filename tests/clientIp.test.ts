@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import express from "express";
+import {
+  bucketIp,
+  createClientIpResolver,
+  normalizeIp,
+} from "../src/utils/clientIp";
+import { createKeyGenerator } from "../src/utils/keyGenerator";
+import { expressLimiter } from "../src/middleware/express";
+
+function req(remoteAddress: string, headers: Record<string, string> = {}) {
+  return { socket: { remoteAddress }, headers };
+}
+
+// 🧪 Client IP Resolution
+describe("Client IP resolution", () => {
+  it("uses the framework address without trusted proxies", () => {
+    const resolve = createClientIpResolver();
+
+    expect(
+      resolve({
+        ip: "::ffff:192.0.2.1",
+        headers: { "x-forwarded-for": "6.6.6.6" },
+      })
+    ).toBe("192.0.2.1");
+    expect(resolve(req("2001:0db8:0000::0001"))).toBe("2001:db8::1");
+  });
+
+  it("walks X-Forwarded-For through trusted proxy ranges", () => {
+    const resolve = createClientIpResolver({
+      trustProxy: ["10.0.0.0/8", "fd00::/8"],
+    });
+
+    expect(
+      resolve(req("10.0.0.2", { "x-forwarded-for": "198.51.100.7, 10.0.0.1" }))
+    ).toBe("198.51.100.7");
+    // A client cannot spoof its way past an untrusted hop
+    expect(
+      resolve(
+        req("10.0.0.2", {
+          "x-forwarded-for": "1.1.1.1, 203.0.113.9, 10.0.0.1",
+        })
+      )
+    ).toBe("203.0.113.9");
+    // Requests that do not come from a trusted proxy keep their peer address
+    expect(resolve(req("203.0.113.1", { "x-forwarded-for": "1.1.1.1" }))).toBe(
+      "203.0.113.1"
+    );
+    expect(
+      resolve(req("::ffff:10.0.0.2", { "x-forwarded-for": "[2001:db8::5]" }))
+    ).toBe("2001:db8::5");
+  });
+
+  it("trusts a fixed number of hops", () => {
+    const resolve = createClientIpResolver({ trustProxy: 1 });
+
+    expect(
+      resolve(req("10.0.0.2", { "x-forwarded-for": "1.1.1.1, 192.0.2.4" }))
+    ).toBe("192.0.2.4");
+    expect(
+      createClientIpResolver({ trustProxy: true })(
+        req("10.0.0.2", { "x-forwarded-for": "1.1.1.1, 192.0.2.4" })
+      )
+    ).toBe("1.1.1.1");
+  });
+
+  it("parses RFC 7239 Forwarded headers", () => {
+    const resolve = createClientIpResolver({ trustProxy: true });
+
+    expect(
+      resolve(
+        req("10.0.0.2", {
+          forwarded:
+            'for="[2001:db8:cafe::17]:4711";proto=https, for=192.0.2.43:8080;by=10.0.0.1',
+          "x-forwarded-for": "6.6.6.6",
+        })
+      )
+    ).toBe("2001:db8:cafe::17");
+    // Obfuscated identifiers stop the walk at the last known address
+    expect(
+      resolve(req("10.0.0.2", { forwarded: "for=_hidden, for=192.0.2.43" }))
+    ).toBe("192.0.2.43");
+  });
+
+  it("normalizes and buckets addresses", () => {
+    expect(normalizeIp("::ffff:7f00:1")).toBe("127.0.0.1");
+    expect(normalizeIp("not-an-ip")).toBe("not-an-ip");
+    expect(bucketIp("2001:db8:1:2:aaaa:bbbb:cccc:dddd", 64)).toBe(
+      "2001:db8:1:2::/64"
+    );
+    expect(bucketIp("2001:db8:1:2ff::1", 56)).toBe("2001:db8:1:200::/56");
+    expect(bucketIp("192.0.2.1", 64)).toBe("192.0.2.1");
+  });
+
+  it("buckets IPv6 clients in the ip key type", () => {
+    const keyFn = createKeyGenerator({ keyType: "ip", ipv6PrefixLength: 64 });
+
+    expect(keyFn(req("2001:db8:1:2::1"))).toBe(
+      keyFn(req("2001:db8:1:2::ffff"))
+    );
+    expect(keyFn(req("2001:db8:1:3::1"))).toBe("2001:db8:1:3::/64");
+  });
+
+  it("limits the forwarded client behind a trusted proxy in Express", async () => {
+    const app = express();
+    app.use(
+      expressLimiter({
+        keyType: "ip",
+        limit: 1,
+        trustProxy: ["127.0.0.1"],
+      })
+    );
+    app.get("/", (_, res) => res.send("OK"));
+
+    const from = (ip: string) =>
+      request(app).get("/").set("X-Forwarded-For", ip);
+    expect((await from("198.51.100.1")).statusCode).toBe(200);
+    expect((await from("198.51.100.2")).statusCode).toBe(200);
+    expect((await from("198.51.100.1")).statusCode).toBe(429);
+  });
+
+  it("rejects invalid proxy settings", () => {
+    expect(() => expressLimiter({ trustProxy: ["10.0.0.0/40"] })).toThrow(
+      /Invalid CIDR range/
+    );
+    expect(() => expressLimiter({ ipv6PrefixLength: 200 })).toThrow(
+      /ipv6PrefixLength/
+    );
+  });
+});
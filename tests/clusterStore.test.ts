@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import { RateLimiter } from "../src/core/RateLimiter";
+import { ClusterStore, ClusterStorePrimary } from "../src/stores/ClusterStore";
+
+// Simulates node:cluster IPC: JSON-serialized messages delivered asynchronously
+function createFakeCluster() {
+  const cluster = new EventEmitter();
+  const createChannel = () => {
+    const channel: any = new EventEmitter();
+    const worker = {
+      send: (message: any) =>
+        setImmediate(() =>
+          channel.emit("message", JSON.parse(JSON.stringify(message)))
+        ),
+    };
+    channel.send = vi.fn((message: any) =>
+      setImmediate(() =>
+        cluster.emit("message", worker, JSON.parse(JSON.stringify(message)))
+      )
+    );
+    return channel;
+  };
+  return { cluster, createChannel };
+}
+
+// 🧪 Cluster Store
+describe("Cluster Store", () => {
+  const cleanups: Array<() => void> = [];
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+  });
+
+  function setup() {
+    const { cluster, createChannel } = createFakeCluster();
+    const primary = new ClusterStorePrimary({ cluster });
+    cleanups.push(() => primary.close());
+    const createStore = (options = {}) => {
+      const channel = createChannel();
+      const store = new ClusterStore({ channel, ...options });
+      cleanups.push(() => store.close());
+      return { store, channel };
+    };
+    return { primary, createStore };
+  }
+
+  it("shares one budget across workers", async () => {
+    const { createStore } = setup();
+    const workerA = new RateLimiter({
+      limit: 3,
+      windowInSeconds: 60,
+      store: createStore().store,
+    });
+    const workerB = new RateLimiter({
+      limit: 3,
+      windowInSeconds: 60,
+      store: createStore().store,
+    });
+
+    expect(await workerA.isAllowed("cluster-user")).toBe(true);
+    expect(await workerB.isAllowed("cluster-user")).toBe(true);
+    expect(await workerA.isAllowed("cluster-user")).toBe(true);
+    expect(await workerB.isAllowed("cluster-user")).toBe(false);
+    expect(await workerA.isAllowed("cluster-user")).toBe(false);
+  });
+
+  it("works with every strategy", async () => {
+    const { createStore } = setup();
+    for (const strategy of ["fixed", "sliding", "tokenBucket"] as const) {
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+        store: createStore({ name: strategy }).store,
+      });
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push(await limiter.isAllowed("strategy-user"));
+      }
+      expect(results).toEqual([true, true, false]);
+    }
+  });
+
+  it("keeps named stores apart on the primary", async () => {
+    const { primary, createStore } = setup();
+    const first = createStore({ name: "api" }).store;
+    const second = createStore({ name: "login" }).store;
+
+    await first.set("k", 1);
+    expect(await second.get("k")).toBeUndefined();
+    expect(await primary.getStore("api").get("k")).toBe(1);
+  });
+
+  it("batches operations queued in the same tick", async () => {
+    const { createStore } = setup();
+    const { store, channel } = createStore();
+    const limiter = new RateLimiter({ limit: 5, windowInSeconds: 60, store });
+
+    await Promise.all(
+      ["a", "b", "c", "d", "e"].map((key) => limiter.isAllowed(key))
+    );
+
+    // One message with the five ban lookups, one with the five decisions
+    expect(channel.send).toHaveBeenCalledTimes(2);
+    expect(channel.send.mock.calls[0][0].requests).toHaveLength(5);
+    expect(channel.send.mock.calls[1][0].requests).toHaveLength(5);
+  });
+
+  it("sends each decision to the primary as one operation", async () => {
+    const { primary, createStore } = setup();
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+    ] as const) {
+      const { store, channel } = createStore({ name: strategy });
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+        store,
+        enforceBans: false, // Ban lookups are a read of their own
+      });
+
+      for (let i = 0; i < 3; i++) await limiter.consume("decide-user", 1);
+
+      expect(channel.send).toHaveBeenCalledTimes(3);
+      const ops = channel.send.mock.calls.map(
+        (call: any[]) => call[0].requests[0].op
+      );
+      expect(new Set(ops).size).toBe(1);
+      expect(ops[0]).toMatch(/^consume/);
+      expect(
+        (await primary.getStore(strategy).entries()).length
+      ).toBeGreaterThan(0);
+      expect(await limiter.isAllowed("decide-user")).toBe(false);
+    }
+  });
+
+  it("falls back to local decisions when the primary is unresponsive", async () => {
+    const channel: any = new EventEmitter();
+    channel.send = vi.fn(); // Messages go nowhere
+    const store = new ClusterStore({
+      channel,
+      timeoutMs: 20,
+      recoveryIntervalMs: 60000,
+    });
+    cleanups.push(() => store.close());
+    const limiter = new RateLimiter({ limit: 1, windowInSeconds: 60, store });
+
+    expect(await limiter.isAllowed("offline-user")).toBe(true);
+    expect(store.isDegraded).toBe(true);
+    expect(await limiter.isAllowed("offline-user")).toBe(false);
+    expect(channel.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects when the fallback is 'error'", async () => {
+    const channel: any = new EventEmitter();
+    channel.send = vi.fn();
+    const store = new ClusterStore({
+      channel,
+      timeoutMs: 20,
+      fallback: "error",
+    });
+    cleanups.push(() => store.close());
+
+    await expect(store.get("k")).rejects.toThrow(/did not respond/);
+  });
+
+  it("decides locally outside a cluster worker only when asked to", async () => {
+    const channel: any = new EventEmitter(); // No send(): not a worker
+    const store = new ClusterStore({ channel, fallback: "local" });
+    cleanups.push(() => store.close());
+
+    expect(store.isDegraded).toBe(true);
+    expect(await store.increment("k")).toBe(1);
+    expect(() => new ClusterStore({ channel })).toThrow(/cluster worker/);
+    expect(() => new ClusterStore({ channel, fallback: "error" })).toThrow(
+      /cluster worker/
+    );
+  });
+});
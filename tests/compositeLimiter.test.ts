@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from "vitest";
+import request from "supertest";
+import express from "express";
+import Fastify from "fastify";
+import { CompositeLimiter } from "../src/core/CompositeLimiter";
+import { MemoryStore } from "../src/stores/MemoryStore";
+import { expressLimiter } from "../src/middleware/express";
+import { fastifyLimiter } from "../src/middleware/fastify";
+
+function tenantLimiter(overrides: Record<string, any> = {}) {
+  return new CompositeLimiter({
+    dimensions: [
+      {
+        name: "user",
+        customKeyGenerator: (req) => req.headers["x-user"],
+        limit: 2,
+        windowInSeconds: 60,
+      },
+      {
+        name: "org",
+        customKeyGenerator: (req) => req.headers["x-org"],
+        limit: 3,
+        windowInSeconds: 60,
+      },
+      {
+        name: "global",
+        customKeyGenerator: () => "global",
+        limit: 5,
+        windowInSeconds: 60,
+      },
+    ],
+    ...overrides,
+  });
+}
+
+function req(user: string, org: string) {
+  return { headers: { "x-user": user, "x-org": org } };
+}
+
+// 🧪 Hierarchical Limits
+describe("CompositeLimiter", () => {
+  it("rejects when any dimension is exhausted and reports which", async () => {
+    const onLimitReached = vi.fn();
+    const limiter = tenantLimiter({ onLimitReached });
+
+    expect((await limiter.check(req("alice", "acme"))).allowed).toBe(true);
+    expect((await limiter.check(req("alice", "acme"))).allowed).toBe(true);
+    const user = await limiter.check(req("alice", "acme"));
+    expect(user).toMatchObject({ allowed: false, dimension: "user" });
+    expect(onLimitReached).toHaveBeenLastCalledWith(
+      "user",
+      "alice",
+      req("alice", "acme")
+    );
+
+    expect((await limiter.check(req("bob", "acme"))).allowed).toBe(true);
+    const org = await limiter.check(req("carol", "acme"));
+    expect(org).toMatchObject({
+      allowed: false,
+      dimension: "org",
+      key: "acme",
+    });
+
+    expect((await limiter.check(req("dave", "initech"))).allowed).toBe(true);
+    expect((await limiter.check(req("erin", "initech"))).allowed).toBe(true);
+    const global = await limiter.check(req("frank", "initech"));
+    expect(global).toMatchObject({ allowed: false, dimension: "global" });
+  });
+
+  it("counts a rejected request in no dimension", async () => {
+    const limiter = tenantLimiter();
+
+    await limiter.check(req("alice", "acme"));
+    await limiter.check(req("alice", "acme"));
+    await limiter.check(req("alice", "acme")); // Rejected for alice
+
+    const org = await limiter.getLimiter("org")!.getState("acme");
+    expect(org.remaining).toBe(1);
+    const global = await limiter.getLimiter("global")!.getState("global");
+    expect(global.remaining).toBe(3);
+  });
+
+  it("refunds earlier dimensions when a later one fills after the peek", async () => {
+    // Another process takes the org's last units between peek and check
+    class RacingStore extends MemoryStore {
+      async compareAndSet<T = any>(
+        key: string,
+        expected: T | undefined,
+        value: T,
+        ttlMs?: number
+      ): Promise<boolean> {
+        const swapped = await super.compareAndSet(key, expected, value, ttlMs);
+        if (swapped && key === "fixed:alice") {
+          const resetAt = Date.now() + 60_000;
+          await this.set("fixed:acme", { count: 3, resetAt });
+        }
+        return swapped;
+      }
+    }
+    const store = new RacingStore();
+    const limiter = tenantLimiter();
+    const racing = new CompositeLimiter({
+      dimensions: [
+        // Each request costs the user 2 units, all of which come back
+        { ...limiter.getDimensionConfig("user")!, store, cost: 2 },
+        { ...limiter.getDimensionConfig("org")!, store },
+      ],
+    });
+
+    const decision = await racing.check(req("alice", "acme"));
+    expect(decision).toMatchObject({ allowed: false, dimension: "org" });
+    const user = await racing.getLimiter("user")!.getState("alice");
+    expect(user.remaining).toBe(2);
+    store.stopGC();
+  });
+
+  it("reports the dimension with the least left when allowed", async () => {
+    const limiter = tenantLimiter();
+
+    const first = await limiter.check(req("alice", "acme"));
+    expect(first).toMatchObject({ dimension: "user", remaining: 1 });
+  });
+
+  it("refunds a request in every dimension", async () => {
+    const limiter = tenantLimiter();
+    const first = req("alice", "acme");
+
+    await limiter.check(first);
+    await limiter.check(req("alice", "acme"));
+    await limiter.refund(first);
+    await limiter.refund(first); // Already refunded
+    expect((await limiter.check(req("alice", "acme"))).allowed).toBe(true);
+    const org = await limiter.getLimiter("org")!.getState("acme");
+    expect(org.remaining).toBe(1);
+  });
+
+  it("counts only failed requests with skipSuccessfulRequests", async () => {
+    const app = express();
+    app.use(expressLimiter(tenantLimiter({ skipSuccessfulRequests: true })));
+    app.get("/", (req, res) => res.sendStatus(req.query.fail ? 500 : 200));
+
+    const send = async (fail: boolean) => {
+      const res = await request(app)
+        .get("/")
+        .query(fail ? { fail: 1 } : {})
+        .set("X-User", "alice")
+        .set("X-Org", "acme");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return res.statusCode;
+    };
+    for (let i = 0; i < 3; i++) expect(await send(false)).toBe(200);
+    expect(await send(true)).toBe(500);
+    expect(await send(true)).toBe(500);
+    expect(await send(false)).toBe(429);
+  });
+
+  it("rejects invalid dimensions", () => {
+    expect(() => new CompositeLimiter({ dimensions: [] })).toThrow(
+      /at least one dimension/
+    );
+    expect(
+      () =>
+        new CompositeLimiter({
+          dimensions: [{ name: "user" }, { name: "user" }],
+        })
+    ).toThrow(/unique/);
+  });
+
+  it("sends the rejecting dimension in Express 429 bodies", async () => {
+    const app = express();
+    app.use(expressLimiter(tenantLimiter()));
+    app.get("/", (_, res) => res.send("OK"));
+
+    const send = () =>
+      request(app).get("/").set("X-User", "alice").set("X-Org", "acme");
+    await send();
+    await send();
+    const rejected = await send();
+    expect(rejected.statusCode).toBe(429);
+    expect(rejected.body.dimension).toBe("user");
+    expect(rejected.headers["x-ratelimit-limit"]).toBe("2");
+  });
+
+  it("sends the rejecting dimension in Fastify 429 bodies", async () => {
+    const fastify = Fastify();
+    fastify.addHook("onRequest", fastifyLimiter(tenantLimiter()));
+    fastify.get("/", async () => "OK");
+
+    const send = (user: string) =>
+      fastify.inject({
+        url: "/",
+        headers: { "x-user": user, "x-org": "acme" },
+      });
+    await send("alice");
+    await send("bob");
+    await send("carol");
+    const rejected = await send("dave");
+    expect(rejected.statusCode).toBe(429);
+    expect(rejected.json().dimension).toBe("org");
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import Fastify from "fastify";
+import { fastifyRateLimit } from "../src/middleware/fastify";
+import { RateLimiter } from "../src/core/RateLimiter";
+
+async function statuses(fastify: any, url: string, count: number) {
+  const codes: number[] = [];
+  for (let i = 0; i < count; i++) {
+    codes.push((await fastify.inject({ url })).statusCode);
+  }
+  return codes;
+}
+
+// 🧪 Fastify Plugin
+describe("Fastify plugin", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("applies per-route overrides with a limiter per route", async () => {
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, { keyType: "ip", limit: 2 });
+    fastify.get("/", async () => "OK");
+    fastify.get("/other", async () => "OK");
+    fastify.get(
+      "/strict",
+      { config: { rateLimit: { limit: 1 } } },
+      async () => "OK"
+    );
+    fastify.get("/free", { config: { rateLimit: false } }, async () => "OK");
+
+    expect(await statuses(fastify, "/strict", 2)).toEqual([200, 429]);
+    // Routes without overrides share the plugin's limiter
+    expect(await statuses(fastify, "/", 2)).toEqual([200, 200]);
+    expect(await statuses(fastify, "/other", 1)).toEqual([429]);
+    expect(await statuses(fastify, "/free", 3)).toEqual([200, 200, 200]);
+    await fastify.close();
+  });
+
+  it("stops the lifecycle and decorates the request", async () => {
+    const fastify = Fastify();
+    const handler = vi.fn(async (request: any) => ({
+      remaining: request.rateLimit.remaining,
+    }));
+    await fastify.register(fastifyRateLimit, { keyType: "ip", limit: 1 });
+    fastify.get("/", handler);
+
+    const allowed = await fastify.inject({ url: "/" });
+    expect(allowed.json()).toEqual({ remaining: 0 });
+    expect(allowed.headers["x-ratelimit-remaining"]).toBe("0");
+
+    const rejected = await fastify.inject({ url: "/" });
+    expect(rejected.statusCode).toBe(429);
+    expect(rejected.headers["retry-after"]).toBeDefined();
+    expect(handler).toHaveBeenCalledTimes(1);
+    await fastify.close();
+  });
+
+  it("limits only configured routes when not global", async () => {
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, {
+      keyType: "ip",
+      limit: 1,
+      global: false,
+    });
+    fastify.get("/", async () => "OK");
+    fastify.get("/login", { config: { rateLimit: {} } }, async () => "OK");
+
+    expect(await statuses(fastify, "/", 2)).toEqual([200, 200]);
+    expect(await statuses(fastify, "/login", 2)).toEqual([200, 429]);
+    await fastify.close();
+  });
+
+  it("respects encapsulation", async () => {
+    const fastify = Fastify();
+    await fastify.register(async (api) => {
+      await api.register(fastifyRateLimit, { keyType: "ip", limit: 1 });
+      api.get("/api", async () => "OK");
+    });
+    fastify.get("/public", async () => "OK");
+
+    expect(await statuses(fastify, "/api", 2)).toEqual([200, 429]);
+    expect(await statuses(fastify, "/public", 2)).toEqual([200, 200]);
+    await fastify.close();
+  });
+
+  it("refunds from onResponse", async () => {
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, {
+      keyType: "ip",
+      limit: 1,
+      skipFailedRequests: true,
+    });
+    fastify.get("/", async (request, reply) =>
+      (request.query as any).fail ? reply.code(500).send() : "OK"
+    );
+
+    expect(await statuses(fastify, "/?fail=1", 2)).toEqual([500, 500]);
+    expect(await statuses(fastify, "/", 2)).toEqual([200, 429]);
+    await fastify.close();
+  });
+
+  it("closes its limiters with the server", async () => {
+    const close = vi.spyOn(RateLimiter.prototype, "close");
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, { keyType: "ip" });
+    fastify.get("/", { config: { rateLimit: { limit: 5 } } }, async () => "OK");
+    await fastify.ready();
+
+    await fastify.close();
+    expect(close).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects invalid options at registration", async () => {
+    const fastify = Fastify();
+    fastify.register(fastifyRateLimit, { limit: -1 });
+    await expect(fastify.ready()).rejects.toThrow(/limit/);
+  });
+});
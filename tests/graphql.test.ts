@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import { ApolloServer } from "@apollo/server";
+import {
+  GraphQLInt,
+  GraphQLList,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  buildSchema,
+  parse,
+} from "graphql";
+import {
+  apolloRateLimitPlugin,
+  graphqlLimiter,
+  rateLimitDirectiveTypeDefs,
+} from "../src/middleware/graphql";
+
+const typeDefs = `
+  ${rateLimitDirectiveTypeDefs}
+
+  type Post {
+    id: ID!
+    title: String
+    comments(first: Int): [String]
+  }
+
+  type User {
+    id: ID!
+    name: String
+    posts: [Post]
+  }
+
+  type Query {
+    me: User
+    user(id: ID!): User
+    search(term: String): [Post] @rateLimit(limit: 2, cost: 10)
+  }
+
+  type Mutation {
+    login(password: String): Boolean @rateLimit(limit: 1, windowInSeconds: 900)
+  }
+`;
+
+const resolvers = {
+  Query: {
+    me: () => ({ id: "1", name: "Ada", posts: [] }),
+    user: (_: unknown, { id }: { id: string }) => ({ id, name: "Ada" }),
+    search: () => [],
+  },
+  Mutation: { login: () => true },
+};
+
+const schema = buildSchema(typeDefs);
+
+function check(
+  limiter: ReturnType<typeof graphqlLimiter>,
+  query: string,
+  options: { operationName?: string; variables?: any; ip?: string } = {}
+) {
+  return limiter.check({
+    schema,
+    document: parse(query),
+    operationName: options.operationName,
+    variables: options.variables,
+    req: { ip: options.ip ?? "203.0.113.7" },
+  });
+}
+
+// 🧪 GraphQL
+describe("GraphQL limiter", () => {
+  it("charges the query cost from the selected fields", async () => {
+    const limiter = graphqlLimiter({ limit: 100 });
+
+    // me + id + name + posts + posts.title
+    const result = await check(
+      limiter,
+      "query Me { me { id name posts { title } } }"
+    );
+    expect(result?.cost).toBe(5);
+    expect(result?.decision.consumed).toBe(5);
+    expect(result?.headers["X-RateLimit-Remaining"]).toBe("95");
+
+    // Fragments count; __typename does not
+    const withFragments = await check(
+      limiter,
+      `query Me {
+        me { ...UserFields __typename ... on User { posts { id } } }
+      }
+      fragment UserFields on User { id name }`
+    );
+    expect(withFragments?.cost).toBe(5);
+    await limiter.close();
+  });
+
+  it("computes costs with a complexity function and variables", async () => {
+    const limiter = graphqlLimiter({
+      limit: 1000,
+      complexity: ({ args, childCost, cost = 1 }) =>
+        cost + childCost * ((args.first as number) ?? 1),
+    });
+
+    const result = await check(
+      limiter,
+      "query Posts($first: Int) { me { posts { comments(first: $first) } } }",
+      { variables: { first: 20 } }
+    );
+    // comments(first: 20) = 1, posts = 1 + 1, me = 1 + 2
+    expect(result?.cost).toBe(3);
+
+    const search = await check(limiter, '{ search(term: "a") { id } }');
+    // @rateLimit cost 10, plus the id selection
+    expect(search?.cost).toBe(11);
+    await limiter.close();
+  });
+
+  it("limits each operation name separately", async () => {
+    const limiter = graphqlLimiter({ limit: 2 });
+    const me = "query Me { me { id } }"; // Costs 2
+
+    expect((await check(limiter, me))?.error).toBeUndefined();
+    const rejected = await check(limiter, me);
+    expect(rejected?.error?.message).toBe("Too Many Requests");
+    expect(rejected?.error?.extensions).toEqual({
+      code: "RATE_LIMITED",
+      retryAfter: 60,
+    });
+    expect(rejected?.decision.consumed).toBe(0);
+
+    expect(
+      (await check(limiter, "query Other { me { id } }"))?.error
+    ).toBeUndefined();
+    // Other clients have their own budget
+    expect(
+      (await check(limiter, me, { ip: "203.0.113.8" }))?.error
+    ).toBeUndefined();
+    await limiter.close();
+
+    const shared = graphqlLimiter({ limit: 2, perOperation: false });
+    expect((await check(shared, me))?.error).toBeUndefined();
+    expect(
+      (await check(shared, "query Other { me { id } }"))?.error
+    ).toBeDefined();
+    await shared.close();
+  });
+
+  it("limits @rateLimit fields per client and refunds the operation", async () => {
+    const limiter = graphqlLimiter({ limit: 100 });
+    const search = "query Search { search { id } }";
+
+    expect((await check(limiter, search))?.error).toBeUndefined();
+    // Both aliases count against the field's limit of 2
+    const aliased = await check(
+      limiter,
+      "query Search { a: search { id } b: search { id } }"
+    );
+    expect(aliased?.error?.message).toBe("Too many requests for Query.search");
+    expect(aliased?.error?.extensions).toEqual({
+      code: "RATE_LIMITED",
+      retryAfter: 60,
+      field: "Query.search",
+    });
+
+    // Only the first search was charged to the operation
+    const next = await check(limiter, search);
+    expect(next?.error).toBeUndefined();
+    expect(next?.decision.remaining).toBe(100 - 11 - 11);
+
+    const login = 'mutation Login { login(password: "x") }';
+    expect((await check(limiter, login))?.error).toBeUndefined();
+    const rejected = await check(limiter, login);
+    expect(rejected?.error?.extensions.retryAfter).toBe(900);
+    await limiter.close();
+  });
+
+  it("reads limits from field extensions in code-first schemas", async () => {
+    const codeFirst = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: {
+          reports: {
+            type: new GraphQLList(GraphQLString),
+            extensions: { rateLimit: { limit: 1, cost: 5 } },
+          },
+          count: { type: GraphQLInt },
+        },
+      }),
+    });
+    const limiter = graphqlLimiter({ limit: 100 });
+    const run = () =>
+      limiter.check({
+        schema: codeFirst,
+        document: parse("{ reports count }"),
+        req: { ip: "203.0.113.7" },
+      });
+
+    expect((await run())?.cost).toBe(6);
+    expect((await run())?.error?.extensions.field).toBe("Query.reports");
+    await limiter.close();
+  });
+});
+
+describe("Apollo Server plugin", () => {
+  async function startServer(options = {}) {
+    const server = new ApolloServer({
+      typeDefs,
+      resolvers,
+      plugins: [apolloRateLimitPlugin(options)],
+    });
+    await server.start();
+    return server;
+  }
+
+  it("responds with 429 and the RATE_LIMITED error", async () => {
+    const server = await startServer({ limit: 3 });
+    const run = () =>
+      server.executeOperation(
+        { query: "query Me { me { id name } }" },
+        { contextValue: { req: { ip: "203.0.113.7" } } }
+      );
+
+    const allowed = await run();
+    expect(allowed.http.status).toBeUndefined();
+    expect(allowed.http.headers.get("x-ratelimit-remaining")).toBe("0");
+    expect(
+      allowed.body.kind === "single" && allowed.body.singleResult.data
+    ).toEqual({ me: { id: "1", name: "Ada" } });
+
+    const rejected = await run();
+    expect(rejected.http.status).toBe(429);
+    expect(rejected.http.headers.get("retry-after")).toMatch(/^(59|60)$/);
+    const result =
+      rejected.body.kind === "single" ? rejected.body.singleResult : undefined;
+    expect(result?.data).toBeUndefined();
+    expect(result?.errors?.[0].message).toBe("Too Many Requests");
+    expect(result?.errors?.[0].extensions).toEqual({
+      code: "RATE_LIMITED",
+      retryAfter: 60,
+    });
+    await server.stop();
+  });
+
+  it("keys by header when the context has no request", async () => {
+    const server = await startServer({
+      keyType: "header:X-API-KEY",
+      limit: 1,
+    });
+    const run = (key: string) =>
+      server.executeOperation({
+        query: "mutation Login { login }",
+        http: {
+          method: "POST",
+          headers: new Map([["x-api-key", key]]) as any,
+          search: "",
+          body: {},
+        },
+      });
+
+    expect((await run("key1")).http.status).toBeUndefined();
+    expect((await run("key1")).http.status).toBe(429);
+    expect((await run("key2")).http.status).toBeUndefined();
+    await server.stop();
+  });
+});
@@ -2,14 +2,37 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import request from "supertest";
 import express from "express";
 import Fastify from "fastify";
-import { RateLimit, NestLimiterGuard } from "../src/middleware/nest";
+import Koa from "koa";
+import { IncomingMessage, ServerResponse } from "http";
+import { Hono, MiddlewareHandler } from "hono";
+import {
+  RateLimit,
+  RateLimitModule,
+  NestLimiterGuard,
+  SkipRateLimit,
+} from "../src/middleware/nest";
 import { expressLimiter } from "../src/middleware/express";
 import { fastifyLimiter } from "../src/middleware/fastify";
 import { universalLimiter } from "../src/middleware/handler";
-import { UnauthorizedException } from "@nestjs/common";
+import { koaLimiter } from "../src/middleware/koa";
+import {
+  fetchLimiter,
+  withRateLimit,
+  FetchLimiterOptions,
+} from "../src/middleware/fetch";
+import { honoLimiter } from "../src/middleware/hono";
+import { nodeHttpLimiter } from "../src/middleware/node";
+import { HttpException } from "@nestjs/common";
+import { Test } from "@nestjs/testing";
 import { FixedWindowStrategy } from "../src/strategies/memoryStore";
 import { SlidingWindowStrategy } from "../src/strategies/slidingWindow";
 import { TokenBucketStrategy } from "../src/strategies/tokenBucket";
+import { CompositeLimiter } from "../src/core/CompositeLimiter";
+
+// As behind Cloudflare, which overwrites the header clients send
+const fromCloudflare: FetchLimiterOptions = {
+  getIp: (request) => request.headers.get("cf-connecting-ip") ?? undefined,
+};
 
 // 🧪 Integration Tests
 describe("Integration Tests", () => {
@@ -108,6 +131,148 @@ describe("Integration Tests", () => {
       expect(onPass).toHaveBeenCalledTimes(1);
       expect(onLimitReached).toHaveBeenCalledTimes(1);
     });
+
+    it("limits concurrent requests and releases them on finish", async () => {
+      let finishFirst!: () => void;
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          limit: 1,
+          strategy: "concurrency",
+        })
+      );
+      app.get("/slow", (_, res) => {
+        finishFirst = () => res.send("slow");
+      });
+      app.get("/", (_, res) => res.send("OK"));
+
+      const slow = request(app)
+        .get("/slow")
+        .then((res) => res.statusCode);
+      await vi.waitFor(() => expect(finishFirst).toBeDefined());
+      expect((await request(app).get("/")).statusCode).toBe(429);
+
+      finishFirst();
+      expect(await slow).toBe(200);
+      expect((await request(app).get("/")).statusCode).toBe(200);
+      expect((await request(app).get("/")).statusCode).toBe(200);
+    });
+
+    it("sends rate limit headers on allowed and rejected responses", async () => {
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          limit: 2,
+          windowInSeconds: 60,
+        })
+      );
+      app.get("/", (_, res) => res.send("OK"));
+
+      const allowed = await request(app).get("/");
+      expect(allowed.headers["x-ratelimit-limit"]).toBe("2");
+      expect(allowed.headers["x-ratelimit-remaining"]).toBe("1");
+      expect(Number(allowed.headers["x-ratelimit-reset"])).toBeGreaterThan(
+        Date.now() / 1000
+      );
+      expect(allowed.headers["ratelimit"]).toMatch(
+        /^limit=2, remaining=1, reset=(59|60)$/
+      );
+      expect(allowed.headers["ratelimit-policy"]).toBe("2;w=60");
+      expect(allowed.headers["retry-after"]).toBeUndefined();
+
+      await request(app).get("/");
+      const rejected = await request(app).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.headers["x-ratelimit-remaining"]).toBe("0");
+      expect(rejected.headers["retry-after"]).toMatch(/^(59|60)$/);
+    });
+
+    it("advertises every rule in RateLimit-Policy", async () => {
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          headers: "draft",
+          rules: [
+            { limit: 10, windowInSeconds: 1 },
+            { limit: 500, windowInSeconds: 60 },
+          ],
+        })
+      );
+      app.get("/", (_, res) => res.send("OK"));
+
+      const res = await request(app).get("/");
+      expect(res.headers["ratelimit-policy"]).toBe("10;w=1, 500;w=60");
+      expect(res.headers["ratelimit"]).toMatch(/^limit=10, remaining=9,/);
+    });
+
+    it("sends only the chosen header family", async () => {
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          limit: 1,
+          windowInSeconds: 60,
+          headers: "draft",
+        })
+      );
+      app.get("/", (_, res) => res.send("OK"));
+
+      const allowed = await request(app).get("/");
+      expect(allowed.headers["ratelimit"]).toBeDefined();
+      expect(allowed.headers["x-ratelimit-limit"]).toBeUndefined();
+
+      const quiet = express();
+      quiet.use(expressLimiter({ keyType: "ip", limit: 1, headers: false }));
+      quiet.get("/", (_, res) => res.send("OK"));
+      await request(quiet).get("/");
+      const rejected = await request(quiet).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.headers["retry-after"]).toBeUndefined();
+      expect(rejected.headers["ratelimit"]).toBeUndefined();
+    });
+
+    it("counts only failed logins with skipSuccessfulRequests", async () => {
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          limit: 2,
+          skipSuccessfulRequests: true,
+        })
+      );
+      app.get("/login", (req, res) =>
+        req.query.password === "secret"
+          ? res.send("Welcome")
+          : res.status(401).send("Wrong password")
+      );
+      const login = async (password: string) => {
+        const res = await request(app).get("/login").query({ password });
+        // Refunds happen once the response has finished
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return res.statusCode;
+      };
+
+      for (let i = 0; i < 3; i++) expect(await login("secret")).toBe(200);
+      expect(await login("guess")).toBe(401);
+      expect(await login("guess")).toBe(401);
+      expect(await login("secret")).toBe(429);
+    });
+
+    it("bypasses the limiter for skipped requests", async () => {
+      app.use(
+        expressLimiter({
+          keyType: "ip",
+          limit: 1,
+          skip: (req) => req.path === "/health",
+        })
+      );
+      app.get("/health", (_, res) => res.send("OK"));
+      app.get("/", (_, res) => res.send("OK"));
+
+      await request(app).get("/");
+      const health = await request(app).get("/health");
+      expect(health.statusCode).toBe(200);
+      expect(health.headers["x-ratelimit-limit"]).toBeUndefined();
+      expect((await request(app).get("/")).statusCode).toBe(429);
+    });
   });
 
   describe("Fastify Integration", () => {
@@ -134,6 +299,29 @@ describe("Integration Tests", () => {
       expect(res3.statusCode).toBe(429);
     });
 
+    it("sends rate limit headers", async () => {
+      const fastify = Fastify();
+      fastify.addHook(
+        "onRequest",
+        fastifyLimiter({
+          keyType: "ip",
+          limit: 1,
+          windowInSeconds: 30,
+          headers: "legacy",
+        })
+      );
+      fastify.get("/", async () => "OK");
+
+      const allowed = await fastify.inject({ url: "/" });
+      expect(allowed.headers["x-ratelimit-limit"]).toBe("1");
+      expect(allowed.headers["x-ratelimit-remaining"]).toBe("0");
+      expect(allowed.headers["ratelimit"]).toBeUndefined();
+
+      const rejected = await fastify.inject({ url: "/" });
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.headers["retry-after"]).toMatch(/^(29|30)$/);
+    });
+
     it("supports different strategies", async () => {
       const fastify = Fastify();
       fastify.addHook(
@@ -157,60 +345,621 @@ describe("Integration Tests", () => {
       expect(res2.statusCode).toBe(200);
       expect(res3.statusCode).toBe(429);
     });
+
+    it("releases concurrency slots when the response is sent", async () => {
+      const fastify = Fastify();
+      let finishFirst!: () => void;
+      fastify.addHook(
+        "onRequest",
+        fastifyLimiter({ keyType: "ip", limit: 1, strategy: "concurrency" })
+      );
+      fastify.get(
+        "/slow",
+        () => new Promise((resolve) => (finishFirst = () => resolve("slow")))
+      );
+      fastify.get("/", async () => "OK");
+      await fastify.ready();
+
+      const slow = fastify.inject({ method: "GET", url: "/slow" });
+      await vi.waitFor(() => expect(finishFirst).toBeDefined());
+      expect((await fastify.inject({ url: "/" })).statusCode).toBe(429);
+
+      finishFirst();
+      expect((await slow).statusCode).toBe(200);
+      expect((await fastify.inject({ url: "/" })).statusCode).toBe(200);
+      expect((await fastify.inject({ url: "/" })).statusCode).toBe(200);
+    });
+
+    it("refunds server errors with skipFailedRequests", async () => {
+      const fastify = Fastify();
+      fastify.addHook(
+        "onRequest",
+        fastifyLimiter({ keyType: "ip", limit: 1, skipFailedRequests: true })
+      );
+      fastify.get("/broken", async (_, reply) => reply.status(503).send());
+      fastify.get("/", async () => "OK");
+      await fastify.ready();
+
+      for (let i = 0; i < 3; i++) {
+        expect((await fastify.inject({ url: "/broken" })).statusCode).toBe(503);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect((await fastify.inject({ url: "/" })).statusCode).toBe(200);
+      expect((await fastify.inject({ url: "/" })).statusCode).toBe(429);
+    });
+  });
+
+  describe("Koa Integration", () => {
+    function koaApp(...middleware: Koa.Middleware[]) {
+      const app = new Koa();
+      app.silent = true; // Thrown 500s are expected
+      middleware.forEach((fn) => app.use(fn));
+      app.use((ctx) => {
+        if (ctx.path === "/fail") ctx.throw(500);
+        ctx.body = "OK";
+      });
+      return app.callback();
+    }
+
+    it("works with IP-based limiting", async () => {
+      const app = koaApp(koaLimiter({ keyType: "ip", limit: 2 }));
+
+      expect((await request(app).get("/")).statusCode).toBe(200);
+      const allowed = await request(app).get("/");
+      expect(allowed.text).toBe("OK");
+      expect(allowed.headers["x-ratelimit-remaining"]).toBe("0");
+
+      const rejected = await request(app).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.body).toEqual({ message: "Too Many Requests" });
+      expect(rejected.headers["retry-after"]).toMatch(/^(59|60)$/);
+    });
+
+    it("reads keys from ctx.request", async () => {
+      const app = koaApp(
+        koaLimiter({ keyType: "header:X-API-KEY", limit: 1 }),
+        koaLimiter({
+          customKeyGenerator: (req) => req.path,
+          limit: 2,
+        })
+      );
+
+      const get = (path: string, key: string) =>
+        request(app).get(path).set("X-API-KEY", key);
+      expect((await get("/a", "key1")).statusCode).toBe(200);
+      expect((await get("/a", "key1")).statusCode).toBe(429);
+      expect((await get("/a", "key2")).statusCode).toBe(200);
+      expect((await get("/a", "key3")).statusCode).toBe(429);
+    });
+
+    it("sends a configurable 429 body", async () => {
+      const app = koaApp(
+        koaLimiter(
+          { keyType: "ip", limit: 1 },
+          {
+            body: (ctx, decision) => ({
+              error: `Slow down, retry in ${Math.ceil(
+                decision.retryAfterMs / 1000
+              )}s`,
+              path: ctx.path,
+            }),
+          }
+        )
+      );
+
+      await request(app).get("/");
+      const rejected = await request(app).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.body).toEqual({
+        error: "Slow down, retry in 60s",
+        path: "/",
+      });
+    });
+
+    it("refunds after downstream with skipFailedRequests", async () => {
+      const app = koaApp(
+        koaLimiter({ keyType: "ip", limit: 1, skipFailedRequests: true })
+      );
+
+      for (let i = 0; i < 3; i++) {
+        expect((await request(app).get("/fail")).statusCode).toBe(500);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect((await request(app).get("/")).statusCode).toBe(200);
+      expect((await request(app).get("/")).statusCode).toBe(429);
+    });
+
+    it("releases concurrency slots once downstream is done", async () => {
+      let finishFirst!: () => void;
+      const app = new Koa();
+      app.use(koaLimiter({ keyType: "ip", limit: 1, strategy: "concurrency" }));
+      app.use(async (ctx) => {
+        if (ctx.path === "/slow") {
+          await new Promise<void>((resolve) => (finishFirst = resolve));
+        }
+        ctx.body = "OK";
+      });
+      const server = app.callback();
+
+      const slow = request(server)
+        .get("/slow")
+        .then((res) => res.statusCode);
+      await vi.waitFor(() => expect(finishFirst).toBeDefined());
+      expect((await request(server).get("/")).statusCode).toBe(429);
+
+      finishFirst();
+      expect(await slow).toBe(200);
+      await vi.waitFor(async () =>
+        expect((await request(server).get("/")).statusCode).toBe(200)
+      );
+    });
+  });
+
+  describe("Fetch API Integration", () => {
+    const req = (path = "/", headers: Record<string, string> = {}) =>
+      new Request(`https://example.com${path}`, { headers });
+
+    it("returns null or a ready 429 response", async () => {
+      const limit = fetchLimiter({ keyType: "ip", limit: 1 }, fromCloudflare);
+      const headers = { "cf-connecting-ip": "203.0.113.7" };
+
+      expect(await limit(req("/", headers))).toBeNull();
+      const rejected = await limit(req("/", headers));
+      expect(rejected?.status).toBe(429);
+      expect(rejected?.headers.get("content-type")).toBe("application/json");
+      expect(rejected?.headers.get("retry-after")).toMatch(/^(59|60)$/);
+      expect(rejected?.headers.get("x-ratelimit-remaining")).toBe("0");
+      expect(await rejected?.json()).toEqual({ message: "Too Many Requests" });
+
+      // Another client
+      expect(
+        await limit(req("/", { "cf-connecting-ip": "203.0.113.8" }))
+      ).toBeNull();
+    });
+
+    it("reads keys from request headers and the URL", async () => {
+      const byKey = fetchLimiter({ keyType: "header:X-API-KEY", limit: 1 });
+      expect(await byKey(req("/", { "x-api-key": "key1" }))).toBeNull();
+      expect((await byKey(req("/", { "x-api-key": "key1" })))?.status).toBe(
+        429
+      );
+      expect(await byKey(req("/", { "x-api-key": "key2" }))).toBeNull();
+
+      const byPath = fetchLimiter({
+        customKeyGenerator: (request) => `${request.method}:${request.path}`,
+        limit: 1,
+      });
+      expect(await byPath(req("/a?page=1"))).toBeNull();
+      expect((await byPath(req("/a?page=2")))?.status).toBe(429);
+      expect(await byPath(req("/b"))).toBeNull();
+    });
+
+    it("takes the client address from getIp", async () => {
+      const limit = fetchLimiter(
+        { keyType: "ip", limit: 1 },
+        {
+          getIp: (request) => request.headers.get("fly-client-ip") ?? undefined,
+        }
+      );
+      const headers = { "fly-client-ip": "198.51.100.1" };
+
+      expect(await limit(req("/", headers))).toBeNull();
+      expect((await limit(req("/", headers)))?.status).toBe(429);
+      expect(
+        await limit(req("/", { "fly-client-ip": "198.51.100.2" }))
+      ).toBeNull();
+    });
+
+    it("requires getIp for limiters keyed by IP", () => {
+      // Headers clients can set are never read as the address by default
+      expect(() => fetchLimiter({ limit: 1 })).toThrow(/getIp/);
+      expect(() =>
+        withRateLimit(() => new Response(), { keyType: "ip", limit: 1 })
+      ).toThrow(/getIp/);
+      expect(() =>
+        fetchLimiter(
+          new CompositeLimiter({
+            dimensions: [
+              { name: "key", keyType: "header:X-API-KEY", limit: 10 },
+              { name: "ip", limit: 5 },
+            ],
+          })
+        )
+      ).toThrow(/getIp/);
+      expect(() => honoLimiter({ keyType: "ip", limit: 1 })).toThrow(/getIp/);
+    });
+
+    it("wraps handlers and adds headers to their responses", async () => {
+      const handler = withRateLimit(
+        async () => Response.json({ ok: true }),
+        { keyType: "ip", limit: 2 },
+        {
+          ...fromCloudflare,
+          body: (decision) => ({
+            error: "limited",
+            retryAfter: Math.ceil(decision.retryAfterMs / 1000),
+          }),
+        }
+      );
+      const headers = { "cf-connecting-ip": "203.0.113.7" };
+
+      const allowed = await handler(req("/", headers));
+      expect(allowed.status).toBe(200);
+      expect(await allowed.json()).toEqual({ ok: true });
+      expect(allowed.headers.get("x-ratelimit-limit")).toBe("2");
+      expect(allowed.headers.get("x-ratelimit-remaining")).toBe("1");
+
+      await handler(req("/", headers));
+      const rejected = await handler(req("/", headers));
+      expect(rejected.status).toBe(429);
+      expect(await rejected.json()).toEqual({
+        error: "limited",
+        retryAfter: 60,
+      });
+    });
+
+    it("refunds failed responses with skipFailedRequests", async () => {
+      const handler = withRateLimit(
+        async (request: Request) => {
+          if (new URL(request.url).pathname === "/throw")
+            throw new Error("boom");
+          return new Response(null, {
+            status: new URL(request.url).pathname === "/fail" ? 500 : 200,
+          });
+        },
+        { keyType: "ip", limit: 1, skipFailedRequests: true },
+        fromCloudflare
+      );
+      const headers = { "cf-connecting-ip": "203.0.113.7" };
+
+      expect((await handler(req("/fail", headers))).status).toBe(500);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await expect(handler(req("/throw", headers))).rejects.toThrow("boom");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect((await handler(req("/", headers))).status).toBe(200);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect((await handler(req("/", headers))).status).toBe(429);
+    });
+  });
+
+  describe("Hono Integration", () => {
+    function honoApp(...middleware: MiddlewareHandler[]) {
+      const app = new Hono();
+      middleware.forEach((fn) => app.use(fn));
+      app.get("/fail", (c) => c.text("Error", 500));
+      app.get("*", (c) => c.text("OK"));
+      return app;
+    }
+
+    it("works with IP-based limiting", async () => {
+      const app = honoApp(
+        honoLimiter({ keyType: "ip", limit: 2 }, fromCloudflare)
+      );
+      const get = () =>
+        app.request("/", { headers: { "cf-connecting-ip": "203.0.113.7" } });
+
+      expect((await get()).status).toBe(200);
+      const allowed = await get();
+      expect(await allowed.text()).toBe("OK");
+      expect(allowed.headers.get("x-ratelimit-remaining")).toBe("0");
+
+      const rejected = await get();
+      expect(rejected.status).toBe(429);
+      expect(await rejected.json()).toEqual({ message: "Too Many Requests" });
+      expect(rejected.headers.get("retry-after")).toMatch(/^(59|60)$/);
+    });
+
+    it("refunds after downstream with skipSuccessfulRequests", async () => {
+      const app = honoApp(
+        honoLimiter({
+          keyType: "header:X-API-KEY",
+          limit: 1,
+          skipSuccessfulRequests: true,
+        })
+      );
+      const get = (path: string) =>
+        app.request(path, { headers: { "X-API-KEY": "key1" } });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await get("/")).status).toBe(200);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect((await get("/fail")).status).toBe(500);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect((await get("/")).status).toBe(429);
+    });
+
+    it("releases concurrency slots once downstream is done", async () => {
+      let finishFirst!: () => void;
+      const app = new Hono();
+      app.use(
+        honoLimiter(
+          { keyType: "ip", limit: 1, strategy: "concurrency" },
+          fromCloudflare
+        )
+      );
+      app.get("/slow", async (c) => {
+        await new Promise<void>((resolve) => (finishFirst = resolve));
+        return c.text("OK");
+      });
+      app.get("/", (c) => c.text("OK"));
+      const get = (path: string) =>
+        app.request(path, { headers: { "cf-connecting-ip": "203.0.113.7" } });
+
+      const slow = get("/slow").then((res) => res.status);
+      await vi.waitFor(() => expect(finishFirst).toBeDefined());
+      expect((await get("/")).status).toBe(429);
+
+      finishFirst();
+      expect(await slow).toBe(200);
+      await vi.waitFor(async () => expect((await get("/")).status).toBe(200));
+    });
   });
 
   describe("NestJS Integration", () => {
+    function httpContext(
+      request: any,
+      handler: Function = () => {},
+      classRef: Function = class {}
+    ) {
+      return {
+        switchToHttp: () => ({ getRequest: () => request }),
+        getHandler: () => handler,
+        getClass: () => classRef,
+      } as any;
+    }
+
+    async function rejection(promise: Promise<boolean>) {
+      const error = await promise.catch((e) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      return error as HttpException;
+    }
+
     it("works with guard-based limiting", async () => {
       const guard = new NestLimiterGuard({
         keyType: "ip",
         limit: 2,
         windowInSeconds: 60,
       });
+      const context = httpContext({ ip: "192.168.1.100" });
+
+      expect(await guard.canActivate(context)).toBe(true);
+      expect(await guard.canActivate(context)).toBe(true);
+      const error = await rejection(guard.canActivate(context));
+      expect(error.getStatus()).toBe(429);
+      expect(error.getResponse()).toMatchObject({
+        message: "Too Many Requests",
+      });
+    });
 
-      const mockContext = {
-        switchToHttp: () => ({
-          getRequest: () => ({ ip: "192.168.1.100" }), // Unique IP
-        }),
-        getHandler: () => ({}),
-        getClass: () => ({}),
+    it("merges class and method decorators with a limiter per handler", async () => {
+      @RateLimit({ limit: 3 })
+      class ApiController {
+        @RateLimit({ limit: 1 })
+        strict() {}
+        loose() {}
+        @SkipRateLimit()
+        health() {}
+      }
+      const proto = ApiController.prototype;
+      const guard = new NestLimiterGuard({ keyType: "ip", limit: 100 });
+      const call = (handler: Function) =>
+        guard.canActivate(
+          httpContext({ ip: "192.168.1.200" }, handler, ApiController)
+        );
+
+      expect(await call(proto.strict)).toBe(true);
+      expect((await rejection(call(proto.strict))).getStatus()).toBe(429);
+      // The class-level limit applies to undecorated methods, counted apart
+      for (let i = 0; i < 3; i++) expect(await call(proto.loose)).toBe(true);
+      await rejection(call(proto.loose));
+      for (let i = 0; i < 5; i++) expect(await call(proto.health)).toBe(true);
+    });
+
+    it("reads options from RateLimitModule.forRoot", async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [RateLimitModule.forRoot({ keyType: "ip", limit: 1 })],
+      }).compile();
+      const guard = moduleRef.get(NestLimiterGuard);
+      const context = httpContext({ ip: "192.168.1.201" });
+
+      expect(await guard.canActivate(context)).toBe(true);
+      await rejection(guard.canActivate(context));
+      await moduleRef.close();
+    });
+
+    it("builds options with RateLimitModule.forRootAsync", async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          RateLimitModule.forRootAsync({
+            useFactory: async (limit: number) => ({ keyType: "ip", limit }),
+            inject: ["LIMIT"],
+            imports: [
+              {
+                module: class LimitModule {},
+                providers: [{ provide: "LIMIT", useValue: 2 }],
+                exports: ["LIMIT"],
+              },
+            ],
+          }),
+        ],
+      }).compile();
+      const guard = moduleRef.get(NestLimiterGuard);
+      const context = httpContext({ ip: "192.168.1.202" });
+
+      expect(await guard.canActivate(context)).toBe(true);
+      expect(await guard.canActivate(context)).toBe(true);
+      await rejection(guard.canActivate(context));
+      await moduleRef.close();
+    });
+  });
+
+  describe("Node http Integration", () => {
+    function nodeApp(limit: ReturnType<typeof nodeHttpLimiter>) {
+      return async (req: IncomingMessage, res: ServerResponse) => {
+        if (!(await limit(req, res))) return;
+        res.statusCode = req.url === "/fail" ? 500 : 200;
+        res.end("OK");
       };
+    }
+
+    it("writes a JSON 429 with headers", async () => {
+      const app = nodeApp(nodeHttpLimiter({ keyType: "ip", limit: 2 }));
+
+      expect((await request(app).get("/")).statusCode).toBe(200);
+      const allowed = await request(app).get("/");
+      expect(allowed.text).toBe("OK");
+      expect(allowed.headers["x-ratelimit-remaining"]).toBe("0");
 
-      expect(await guard.canActivate(mockContext as any)).toBe(true);
-      expect(await guard.canActivate(mockContext as any)).toBe(true);
-      await expect(guard.canActivate(mockContext as any)).rejects.toThrow(
-        UnauthorizedException
+      const rejected = await request(app).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.headers["content-type"]).toBe("application/json");
+      expect(rejected.headers["retry-after"]).toMatch(/^(59|60)$/);
+      expect(rejected.body).toEqual({ message: "Too Many Requests" });
+    });
+
+    it("applies the first route matching the method and path", async () => {
+      const app = nodeApp(
+        nodeHttpLimiter(
+          { keyType: "ip", limit: 1 },
+          {
+            routes: [
+              { path: "/health", limit: false },
+              { method: "POST", path: "/users/:id", limit: { limit: 2 } },
+              {
+                method: ["GET", "HEAD"],
+                path: "/api/*",
+                limit: { keyType: "header:X-API-KEY", limit: 3 },
+              },
+              { path: /^\/files\/.+\.png$/, limit: { limit: 4 } },
+            ],
+          }
+        )
       );
+      const statuses = async (send: () => request.Test, times: number) => {
+        const codes: number[] = [];
+        for (let i = 0; i < times; i++) codes.push((await send()).statusCode);
+        return codes;
+      };
+
+      expect(await statuses(() => request(app).get("/health"), 3)).toEqual([
+        200, 200, 200,
+      ]);
+      expect(await statuses(() => request(app).post("/users/1"), 3)).toEqual([
+        200, 200, 429,
+      ]);
+      expect(
+        await statuses(
+          () => request(app).get("/api/data?page=2").set("X-API-KEY", "key1"),
+          4
+        )
+      ).toEqual([200, 200, 200, 429]);
+      expect(
+        await statuses(() => request(app).get("/files/a/b.png"), 5)
+      ).toEqual([200, 200, 200, 200, 429]);
+      // Unmatched requests, and GET /users/1, use the config
+      expect(await statuses(() => request(app).get("/users/1"), 2)).toEqual([
+        200, 429,
+      ]);
+      expect((await request(app).get("/")).statusCode).toBe(429);
     });
 
-    it("supports decorator-based limiting", async () => {
-      const guard = new NestLimiterGuard({
-        keyType: "ip",
-        limit: 2,
-        windowInSeconds: 60,
+    it("sends a configurable 429 body and calls next when allowed", async () => {
+      const limit = nodeHttpLimiter(
+        { keyType: "ip", limit: 1 },
+        {
+          body: (req, decision) => ({
+            error: `Slow down, retry in ${Math.ceil(
+              decision.retryAfterMs / 1000
+            )}s`,
+            path: req.url,
+          }),
+        }
+      );
+      const app = (req: IncomingMessage, res: ServerResponse) =>
+        limit(req, res, () => res.end("OK"));
+
+      expect((await request(app).get("/a")).text).toBe("OK");
+      const rejected = await request(app).get("/a");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.body).toEqual({
+        error: "Slow down, retry in 60s",
+        path: "/a",
       });
+    });
 
-      const mockContext = {
-        switchToHttp: () => ({
-          getRequest: () => ({ ip: "192.168.1.200" }), // Different unique IP
-        }),
-        getHandler: () => ({}),
-        getClass: () => ({}),
-      };
+    it("refunds failed responses with skipFailedRequests", async () => {
+      const app = nodeApp(
+        nodeHttpLimiter({ keyType: "ip", limit: 1, skipFailedRequests: true })
+      );
 
-      // Mock Reflect.getMetadata to return route-specific config
-      const originalGetMetadata = Reflect.getMetadata;
-      Reflect.getMetadata = vi.fn().mockReturnValue({
-        keyType: "ip",
-        limit: 1,
-        windowInSeconds: 60,
-      });
+      for (let i = 0; i < 3; i++) {
+        expect((await request(app).get("/fail")).statusCode).toBe(500);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect((await request(app).get("/")).statusCode).toBe(200);
+      expect((await request(app).get("/")).statusCode).toBe(429);
+    });
+
+    it("responds with 500 when the limiter fails", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const app = nodeApp(
+        nodeHttpLimiter({
+          keyType: "custom",
+          customKeyGenerator: () => {
+            throw new Error("Store unavailable");
+          },
+        })
+      );
 
-      expect(await guard.canActivate(mockContext as any)).toBe(true);
-      await expect(guard.canActivate(mockContext as any)).rejects.toThrow(
-        UnauthorizedException
+      const res = await request(app).get("/");
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: "Internal rate limiter error" });
+      expect(error).toHaveBeenCalledWith(
+        "Rate limiter error:",
+        expect.any(Error)
       );
+      error.mockRestore();
+    });
+
+    it("works with http2 compatibility handlers", async () => {
+      const http2 = await import("http2");
+      const limit = nodeHttpLimiter({ keyType: "ip", limit: 1 });
+      const server = http2.createServer(async (req, res) => {
+        if (!(await limit(req, res))) return;
+        res.end("OK");
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as { port: number };
+      const client = http2.connect(`http://localhost:${port}`);
+      const get = () =>
+        new Promise<{ status: number; body: string; headers: any }>(
+          (resolve, reject) => {
+            const stream = client.request({ ":path": "/" });
+            let headers: any;
+            let body = "";
+            stream.on("response", (h) => (headers = h));
+            stream.on("data", (chunk) => (body += chunk));
+            stream.on("end", () =>
+              resolve({ status: headers[":status"], body, headers })
+            );
+            stream.on("error", reject);
+          }
+        );
 
-      Reflect.getMetadata = originalGetMetadata;
+      try {
+        expect((await get()).status).toBe(200);
+        const rejected = await get();
+        expect(rejected.status).toBe(429);
+        expect(rejected.headers["x-ratelimit-remaining"]).toBe("0");
+        expect(JSON.parse(rejected.body)).toEqual({
+          message: "Too Many Requests",
+        });
+      } finally {
+        client.close();
+        await new Promise((resolve) => server.close(resolve));
+        await limit.close();
+      }
     });
   });
 
@@ -239,6 +988,77 @@ describe("Integration Tests", () => {
 
       expect(next).toHaveBeenCalledTimes(2);
     });
+
+    it("writes a JSON 429 to plain Node responses", async () => {
+      const limiter = universalLimiter({ keyType: "ip", limit: 1 });
+      const app = (req: IncomingMessage, res: ServerResponse) =>
+        limiter(req, res, () => res.end("OK"));
+
+      expect((await request(app).get("/")).text).toBe("OK");
+      const rejected = await request(app).get("/");
+      expect(rejected.statusCode).toBe(429);
+      expect(rejected.headers["retry-after"]).toMatch(/^(59|60)$/);
+      expect(rejected.body).toEqual({ message: "Too Many Requests" });
+    });
+
+    it("releases concurrency slots when the response closes", async () => {
+      const { EventEmitter } = await import("events");
+      const req = { ip: "123.45.67.90" } as any;
+      const makeRes = (): any =>
+        Object.assign(new EventEmitter(), {
+          status() {
+            return this;
+          },
+          send() {},
+        });
+      const next = vi.fn();
+      const limiter = universalLimiter({
+        keyType: "ip",
+        limit: 1,
+        strategy: "concurrency",
+      });
+
+      const first = makeRes();
+      await limiter({ ...req }, first, next);
+      await limiter({ ...req }, makeRes(), next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      first.emit("close");
+      await vi.waitFor(async () => {
+        await limiter({ ...req }, makeRes(), next);
+        expect(next).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it("asks shouldCount once the response is done", async () => {
+      const { EventEmitter } = await import("events");
+      const makeRes = (statusCode: number): any =>
+        Object.assign(new EventEmitter(), {
+          statusCode,
+          status() {
+            return this;
+          },
+          send() {},
+        });
+      const next = vi.fn();
+      const shouldCount = vi.fn((req: any, res: any) => res.statusCode !== 404);
+      const limiter = universalLimiter({
+        keyType: "ip",
+        limit: 1,
+        shouldCount,
+      });
+
+      const notFound = makeRes(404);
+      await limiter({ ip: "123.45.67.91" }, notFound, next);
+      notFound.emit("finish");
+      await vi.waitFor(() => expect(shouldCount).toHaveBeenCalledTimes(1));
+      await vi.waitFor(async () => {
+        await limiter({ ip: "123.45.67.91" }, makeRes(200), next);
+        expect(next).toHaveBeenCalledTimes(2);
+      });
+      await limiter({ ip: "123.45.67.91" }, makeRes(200), next);
+      expect(next).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe("Error Handling", () => {
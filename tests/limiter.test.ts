@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import request from "supertest";
 import express from "express";
 import Fastify from "fastify";
@@ -6,9 +9,11 @@ import { RateLimiter } from "../src/core/RateLimiter";
 import { FixedWindowStrategy } from "../src/strategies/memoryStore";
 import { SlidingWindowStrategy } from "../src/strategies/slidingWindow";
 import { TokenBucketStrategy } from "../src/strategies/tokenBucket";
+import { MemoryStore } from "../src/stores/MemoryStore";
 import { expressLimiter } from "../src/middleware/express";
 import { fastifyLimiter } from "../src/middleware/fastify";
 import { universalLimiter } from "../src/middleware/handler";
+import { rateLimitHeaders } from "../src/utils/headers";
 
 // 🧪 Core Rate Limiter Tests
 describe("Rate Limiter Core", () => {
@@ -97,6 +102,728 @@ describe("Rate Limiter Core", () => {
     });
   });
 
+  describe("Sliding Counter Strategy", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("blocks after limit", async () => {
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy: "slidingCounter",
+      });
+
+      expect(await limiter.isAllowed("test-user")).toBe(true);
+      expect(await limiter.isAllowed("test-user")).toBe(true);
+      expect(await limiter.isAllowed("test-user")).toBe(false);
+    });
+
+    it("weights the previous window by its overlap", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(600_000); // Start of a 60s window
+      const limiter = new RateLimiter({
+        limit: 4,
+        windowInSeconds: 60,
+        strategy: "slidingCounter",
+      });
+
+      for (let i = 0; i < 4; i++) {
+        expect(await limiter.isAllowed("weighted-user")).toBe(true);
+      }
+      expect(await limiter.isAllowed("weighted-user")).toBe(false);
+      // At 3/4 of the window, the estimate drops to 3 of 4 in the next window
+      expect(await limiter.getState("weighted-user")).toEqual({
+        remaining: 0,
+        resetAt: 675_000,
+        limit: 4,
+      });
+
+      vi.setSystemTime(674_999);
+      expect(await limiter.isAllowed("weighted-user")).toBe(false);
+
+      // Halfway through the next window half of the old count still applies
+      vi.setSystemTime(690_000);
+      expect(await limiter.getState("weighted-user")).toEqual({
+        remaining: 2,
+        resetAt: 705_000,
+        limit: 4,
+      });
+      expect(await limiter.isAllowed("weighted-user")).toBe(true);
+      expect(await limiter.isAllowed("weighted-user")).toBe(true);
+      expect(await limiter.isAllowed("weighted-user")).toBe(false);
+    });
+
+    it("forgets counts older than two windows", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(600_000);
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowInSeconds: 60,
+        strategy: "slidingCounter",
+      });
+
+      expect(await limiter.isAllowed("idle-user")).toBe(true);
+      vi.setSystemTime(720_000);
+      expect(await limiter.getState("idle-user")).toEqual({
+        remaining: 1,
+        resetAt: 780_000,
+        limit: 1,
+      });
+      expect(await limiter.isAllowed("idle-user")).toBe(true);
+    });
+  });
+
+  describe("GCRA Strategy", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("blocks after limit", async () => {
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy: "gcra",
+      });
+
+      expect(await limiter.isAllowed("test-user")).toBe(true);
+      expect(await limiter.isAllowed("test-user")).toBe(true);
+      expect(await limiter.isAllowed("test-user")).toBe(false);
+    });
+
+    it("reports the exact retry-after", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(1_000_000);
+      const limiter = new RateLimiter({
+        limit: 10,
+        windowInSeconds: 10,
+        strategy: "gcra",
+        gcra: { emissionIntervalMs: 1000, burst: 3 },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect(await limiter.isAllowed("gcra-user")).toBe(true);
+      }
+      expect(await limiter.isAllowed("gcra-user")).toBe(false);
+
+      vi.setSystemTime(1_000_400);
+      expect(await limiter.getState("gcra-user")).toEqual({
+        remaining: 0,
+        resetAt: 1_003_000,
+        limit: 3,
+        retryAfterMs: 600,
+      });
+
+      vi.setSystemTime(1_001_000);
+      expect(await limiter.isAllowed("gcra-user")).toBe(true);
+      expect(await limiter.isAllowed("gcra-user")).toBe(false);
+
+      // Fully idle again once the arrival time has passed
+      vi.setSystemTime(1_004_000);
+      expect(await limiter.getState("gcra-user")).toEqual({
+        remaining: 3,
+        resetAt: 1_004_000,
+        limit: 3,
+        retryAfterMs: 0,
+      });
+    });
+
+    it("does not drift with fractional emission intervals", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(1_000_000);
+      const limiter = new RateLimiter({
+        limit: 3,
+        windowInSeconds: 1,
+        strategy: "gcra",
+      });
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.isAllowed("fraction-user"));
+      }
+      expect(results).toEqual([true, true, true, false]);
+    });
+
+    it("rejects invalid gcra settings", () => {
+      expect(
+        () =>
+          new RateLimiter({
+            strategy: "gcra",
+            gcra: { emissionIntervalMs: 0, burst: 1.5 },
+          })
+      ).toThrow(/gcra.emissionIntervalMs.*gcra.burst/);
+    });
+  });
+
+  describe("Concurrency Strategy", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("limits requests in flight and frees slots on release", async () => {
+      const limiter = new RateLimiter({ limit: 2, strategy: "concurrency" });
+      const first = {};
+      const second = {};
+
+      expect(await limiter.isAllowed("busy-key", first)).toBe(true);
+      expect(await limiter.isAllowed("busy-key", second)).toBe(true);
+      expect(await limiter.isAllowed("busy-key", {})).toBe(false);
+      expect((await limiter.getState("busy-key")).remaining).toBe(0);
+
+      await limiter.release("busy-key", second);
+      await limiter.release("busy-key", second); // Already released
+      expect((await limiter.getState("busy-key")).remaining).toBe(1);
+      expect(await limiter.isAllowed("busy-key", {})).toBe(true);
+      expect(await limiter.isAllowed("busy-key", {})).toBe(false);
+    });
+
+    it("releases only the lease the decision identifies", async () => {
+      const limiter = new RateLimiter({ limit: 2, strategy: "concurrency" });
+
+      const running = await limiter.check("job-key");
+      const finished = await limiter.check("job-key");
+      expect(running.leaseId).toBeDefined();
+      expect(finished.leaseId).not.toBe(running.leaseId);
+      expect((await limiter.check("job-key")).allowed).toBe(false);
+
+      // The older lease belongs to a job that is still running
+      await limiter.release("job-key", finished.leaseId!);
+      await limiter.release("job-key", finished.leaseId!); // Already released
+      expect((await limiter.getState("job-key")).remaining).toBe(1);
+
+      await limiter.release("job-key", running.leaseId!);
+      expect((await limiter.getState("job-key")).remaining).toBe(2);
+    });
+
+    it("requires a lease to release", async () => {
+      const limiter = new RateLimiter({ limit: 1, strategy: "concurrency" });
+
+      expect(await limiter.isAllowed("job-key")).toBe(true);
+      await expect(
+        limiter.release("job-key", undefined as any)
+      ).rejects.toThrow(/leaseId/);
+      expect(await limiter.isAllowed("job-key")).toBe(false);
+    });
+
+    it("expires leases held longer than maxHoldMs", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(1_000_000);
+      const limiter = new RateLimiter({
+        limit: 1,
+        strategy: "concurrency",
+        concurrency: { maxHoldMs: 5000 },
+      });
+
+      expect(await limiter.isAllowed("leaky-key", {})).toBe(true);
+      expect(await limiter.isAllowed("leaky-key", {})).toBe(false);
+      expect((await limiter.getState("leaky-key")).resetAt).toBe(1_005_000);
+
+      vi.setSystemTime(1_005_000);
+      expect(await limiter.isAllowed("leaky-key", {})).toBe(true);
+    });
+  });
+
+  describe("Weighted Cost", () => {
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+      "concurrency",
+    ] as const) {
+      it(`consumes whole costs or nothing with ${strategy}`, async () => {
+        const limiter = new RateLimiter({
+          limit: 5,
+          windowInSeconds: 60,
+          strategy,
+        });
+
+        expect(await limiter.consume("bulk-user", 3)).toBe(true);
+        expect(await limiter.consume("bulk-user", 3)).toBe(false);
+        expect(await limiter.consume("bulk-user", 2)).toBe(true);
+        expect(await limiter.consume("bulk-user", 1)).toBe(false);
+        expect((await limiter.getState("bulk-user")).remaining).toBe(0);
+      });
+    }
+
+    it("charges the configured cost per request", async () => {
+      const limiter = new RateLimiter({
+        limit: 10,
+        windowInSeconds: 60,
+        cost: (req) => (req.bulk ? 4 : 1),
+      });
+
+      expect(await limiter.isAllowed("mixed-user", { bulk: true })).toBe(true);
+      expect(await limiter.isAllowed("mixed-user", { bulk: true })).toBe(true);
+      expect(await limiter.isAllowed("mixed-user", { bulk: true })).toBe(false);
+      expect(await limiter.isAllowed("mixed-user", {})).toBe(true);
+      expect(await limiter.isAllowed("mixed-user", {})).toBe(true);
+      expect(await limiter.isAllowed("mixed-user", {})).toBe(false);
+    });
+
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+      "concurrency",
+    ] as const) {
+      it(`rejects costs larger than the limit for good with ${strategy}`, async () => {
+        const limiter = new RateLimiter({
+          limit: 2,
+          windowInSeconds: 60,
+          strategy,
+        });
+        await limiter.consume("huge-user", 1);
+
+        const decision = await limiter.charge("huge-user", 3);
+        expect(decision).toMatchObject({
+          allowed: false,
+          exceedsLimit: true,
+          remaining: 1,
+          retryAfterMs: 0,
+          consumed: 0,
+        });
+        expect(rateLimitHeaders(decision, {})["Retry-After"]).toBeUndefined();
+        expect((await limiter.getState("huge-user")).remaining).toBe(1);
+      });
+    }
+
+    it("rejects costs larger than any rule's limit for good", async () => {
+      const limiter = new RateLimiter({
+        rules: [
+          { limit: 2, windowInSeconds: 1 },
+          { limit: 100, windowInSeconds: 3600 },
+        ],
+      });
+
+      const decision = await limiter.charge("huge-user", 3);
+      expect(decision.exceedsLimit).toBe(true);
+      expect(decision.rule?.index).toBe(0);
+      expect(decision.retryAfterMs).toBe(0);
+    });
+
+    it("rejects invalid costs", async () => {
+      expect(() => new RateLimiter({ cost: -1 })).toThrow(/cost/);
+      const limiter = new RateLimiter({ cost: () => 1.5 });
+      await expect(limiter.isAllowed("bad-cost")).rejects.toThrow(
+        /Invalid cost/
+      );
+    });
+  });
+
+  describe("Multiple Rules", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("counts a request only if every rule allows it", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(1_300_000);
+      const limiter = new RateLimiter({
+        rules: [
+          { limit: 2, windowInSeconds: 1 },
+          { limit: 3, windowInSeconds: 60, strategy: "sliding" },
+        ],
+      });
+
+      expect(await limiter.isAllowed("multi-user")).toBe(true);
+      expect(await limiter.isAllowed("multi-user")).toBe(true);
+      const perSecond = await limiter.check("multi-user");
+      expect(perSecond.allowed).toBe(false);
+      expect(perSecond.rule).toEqual({
+        index: 0,
+        limit: 2,
+        windowInSeconds: 1,
+        strategy: "fixed",
+      });
+
+      // The rejection above did not use up the per-minute budget
+      vi.setSystemTime(1_301_000);
+      const third = await limiter.check("multi-user");
+      expect(third.allowed).toBe(true);
+      expect(third.rule?.index).toBe(1);
+      expect(third.remaining).toBe(0);
+
+      const perMinute = await limiter.check("multi-user");
+      expect(perMinute.allowed).toBe(false);
+      expect(perMinute.rule?.index).toBe(1);
+      expect(perMinute.strategy).toBe("sliding");
+      expect(perMinute.retryAfterMs).toBe(59_000);
+
+      // A request rejected by the per-minute rule leaves the per-second one untouched
+      vi.setSystemTime(1_360_000);
+      expect((await limiter.check("multi-user")).allowed).toBe(true);
+      expect((await limiter.check("multi-user")).allowed).toBe(true);
+    });
+
+    it("keeps rules with the same strategy apart in a shared store", async () => {
+      const store = new MemoryStore();
+      const limiter = new RateLimiter({
+        store,
+        rules: [
+          { limit: 1, windowInSeconds: 1 },
+          { limit: 5, windowInSeconds: 60 },
+        ],
+      });
+
+      expect(await limiter.consume("shared-user", 1)).toBe(true);
+      expect(await limiter.consume("shared-user", 1)).toBe(false);
+      expect((await limiter.getState("shared-user")).remaining).toBe(0);
+      store.stopGC();
+    });
+
+    it("refunds the rules already counted when a later rule rejects", async () => {
+      // Another process fills rule 1 between the check and the count
+      class RacingStore extends MemoryStore {
+        async compareAndSet<T = any>(
+          key: string,
+          expected: T | undefined,
+          value: T,
+          ttlMs?: number
+        ): Promise<boolean> {
+          const swapped = await super.compareAndSet(
+            key,
+            expected,
+            value,
+            ttlMs
+          );
+          if (swapped && key === "fixed:rule0:race-user") {
+            const resetAt = Date.now() + 60_000;
+            await this.set("fixed:rule1:race-user", { count: 5, resetAt });
+          }
+          return swapped;
+        }
+      }
+      const store = new RacingStore();
+      const limiter = new RateLimiter({
+        store,
+        rules: [
+          { limit: 2, windowInSeconds: 1 },
+          { limit: 5, windowInSeconds: 60 },
+        ],
+      });
+
+      const decision = await limiter.check("race-user");
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule?.index).toBe(1);
+      expect(decision.consumed).toBe(0);
+      expect((await store.get("fixed:rule0:race-user"))?.count ?? 0).toBe(0);
+      store.stopGC();
+    });
+
+    it("snapshots and restores every rule", async () => {
+      const config = {
+        rules: [
+          { limit: 2, windowInSeconds: 60 },
+          { limit: 2, windowInSeconds: 60, strategy: "tokenBucket" as const },
+        ],
+      };
+      const limiter = new RateLimiter(config);
+      await limiter.isAllowed("snap-user");
+      await limiter.isAllowed("snap-user");
+
+      const restored = await RateLimiter.restore(
+        config,
+        await limiter.snapshot()
+      );
+      expect(await restored.isAllowed("snap-user")).toBe(false);
+    });
+
+    it("rejects invalid rules", () => {
+      expect(() => new RateLimiter({ rules: [] })).toThrow(/rules/);
+      expect(
+        () =>
+          new RateLimiter({
+            rules: [{ limit: 1, windowInSeconds: 0 }],
+          })
+      ).toThrow(/rules\[0\]\.windowInSeconds/);
+    });
+  });
+
+  describe("Penalties", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("bans repeat offenders for escalating durations", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(2_000_000);
+      const onBan = vi.fn();
+      const onUnban = vi.fn();
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowInSeconds: 1,
+        penalty: {
+          rejections: 2,
+          periodInSeconds: 60,
+          banDurationsInSeconds: [10, 100],
+        },
+        onBan,
+        onUnban,
+      });
+
+      expect(await limiter.isAllowed("offender")).toBe(true);
+      expect(await limiter.isAllowed("offender")).toBe(false);
+      expect(await limiter.isAllowed("offender")).toBe(false);
+      expect(onBan).toHaveBeenCalledWith("offender", 10_000, 1);
+
+      // The window has reset, but the ban holds
+      vi.setSystemTime(2_005_000);
+      const banned = await limiter.check("offender");
+      expect(banned).toMatchObject({
+        allowed: false,
+        banned: true,
+        resetAt: 2_010_000,
+        retryAfterMs: 5_000,
+      });
+
+      vi.setSystemTime(2_010_000);
+      expect(await limiter.isAllowed("offender")).toBe(true);
+      expect(onUnban).toHaveBeenCalledTimes(1);
+
+      // Offending again escalates to the next duration
+      await limiter.isAllowed("offender");
+      await limiter.isAllowed("offender");
+      expect(onBan).toHaveBeenLastCalledWith("offender", 100_000, 2);
+    });
+
+    it("does not count banned requests as new offences", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(3_000_000);
+      const onBan = vi.fn();
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowInSeconds: 60,
+        penalty: { rejections: 1, banDurationsInSeconds: [30] },
+        onBan,
+      });
+
+      await limiter.isAllowed("hammer");
+      await limiter.isAllowed("hammer");
+      for (let i = 0; i < 5; i++) await limiter.isAllowed("hammer");
+      expect(onBan).toHaveBeenCalledTimes(1);
+    });
+
+    it("bans and unbans keys manually", async () => {
+      const onBan = vi.fn();
+      const onUnban = vi.fn();
+      const limiter = new RateLimiter({
+        limit: 10,
+        windowInSeconds: 60,
+        onBan,
+        onUnban,
+      });
+
+      await limiter.ban("manual", 60_000);
+      expect(onBan).toHaveBeenCalledWith("manual", 60_000, 0);
+      expect((await limiter.check("manual")).banned).toBe(true);
+      expect(await limiter.isAllowed("someone-else")).toBe(true);
+
+      await limiter.unban("manual");
+      expect(onUnban).toHaveBeenCalledWith("manual");
+      expect(await limiter.isAllowed("manual")).toBe(true);
+      await expect(limiter.ban("manual", 0)).rejects.toThrow(/ban duration/);
+    });
+
+    it("keeps ban state in the configured store", async () => {
+      const store = new MemoryStore();
+      const first = new RateLimiter({ store, penalty: {} });
+      const second = new RateLimiter({ store, penalty: {} });
+
+      await first.ban("shared-offender", 60_000);
+      expect(await second.isAllowed("shared-offender")).toBe(false);
+      store.stopGC();
+    });
+
+    it("enforces bans from other limiters without penalty", async () => {
+      const store = new MemoryStore();
+      const admin = new RateLimiter({ store });
+      const api = new RateLimiter({ store });
+      const unchecked = new RateLimiter({ store, enforceBans: false });
+
+      await admin.ban("1.2.3.4", 60_000);
+      expect((await admin.check("1.2.3.4")).allowed).toBe(false);
+      const decision = await api.check("1.2.3.4");
+      expect(decision).toMatchObject({ allowed: false, banned: true });
+      expect(await unchecked.isAllowed("1.2.3.4")).toBe(true);
+
+      await admin.unban("1.2.3.4");
+      expect(await api.isAllowed("1.2.3.4")).toBe(true);
+      expect(() => new RateLimiter({ enforceBans: "yes" as any })).toThrow(
+        /enforceBans/
+      );
+      store.stopGC();
+    });
+  });
+
+  describe("Refunds", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+      "concurrency",
+    ] as const) {
+      it(`gives consumed units back with ${strategy}`, async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(4_000_000);
+        const limiter = new RateLimiter({
+          limit: 3,
+          windowInSeconds: 60,
+          strategy,
+        });
+        const req = {};
+
+        const decision = await limiter.check("refunded", req);
+        expect(decision.consumed).toBe(1);
+        await limiter.consume("refunded", 2);
+        expect(await limiter.isAllowed("refunded")).toBe(false);
+
+        await limiter.refund("refunded", decision.consumed, req);
+        expect((await limiter.getState("refunded")).remaining).toBe(1);
+        // Refunds never raise a key above its limit
+        await limiter.refund("refunded", 10);
+        expect((await limiter.getState("refunded")).remaining).toBeLessThan(4);
+      });
+    }
+
+    it("refunds every rule", async () => {
+      const limiter = new RateLimiter({
+        rules: [
+          { limit: 2, windowInSeconds: 1 },
+          { limit: 5, windowInSeconds: 60, strategy: "sliding" },
+        ],
+      });
+
+      await limiter.check("multi-refund");
+      await limiter.check("multi-refund");
+      await limiter.refund("multi-refund", 2);
+      expect((await limiter.check("multi-refund")).remaining).toBe(1);
+    });
+
+    it("reports nothing consumed for requests that were not counted", async () => {
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowInSeconds: 60,
+        dryRun: true,
+        allowlist: ["vip"],
+      });
+
+      expect((await limiter.check("dry")).consumed).toBe(1);
+      expect((await limiter.check("dry")).consumed).toBe(0);
+      expect((await limiter.check("vip")).consumed).toBe(0);
+      expect((await limiter.peek("dry")).consumed).toBe(0);
+      await expect(limiter.refund("dry", -1)).rejects.toThrow(/Invalid cost/);
+    });
+  });
+
+  describe("Decisions", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+      "concurrency",
+    ] as const) {
+      it(`reports the decision with ${strategy}`, async () => {
+        const limiter = new RateLimiter({
+          limit: 2,
+          windowInSeconds: 60,
+          strategy,
+        });
+
+        const first = await limiter.check("decided-user");
+        expect(first).toMatchObject({
+          allowed: true,
+          limit: 2,
+          remaining: 1,
+          retryAfterMs: 0,
+          strategy,
+          key: "decided-user",
+        });
+        expect(first.resetAt).toBeGreaterThanOrEqual(Date.now());
+
+        await limiter.check("decided-user");
+        const denied = await limiter.check("decided-user");
+        expect(denied.allowed).toBe(false);
+        expect(denied.remaining).toBe(0);
+        expect(denied.retryAfterMs).toBeGreaterThan(0);
+      });
+    }
+
+    it("computes exact retry-after times", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(1_200_000);
+
+      const fixed = new RateLimiter({ limit: 1, windowInSeconds: 60 });
+      await fixed.check("retry-user");
+      vi.setSystemTime(1_210_000);
+      expect((await fixed.check("retry-user")).retryAfterMs).toBe(50_000);
+
+      const bucket = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy: "tokenBucket",
+      });
+      await bucket.check("retry-user");
+      await bucket.check("retry-user");
+      // One token refills every 30 seconds
+      expect((await bucket.check("retry-user")).retryAfterMs).toBe(30_000);
+
+      const gcra = new RateLimiter({
+        limit: 3,
+        windowInSeconds: 3,
+        strategy: "gcra",
+      });
+      for (let i = 0; i < 3; i++) await gcra.check("retry-user");
+      expect((await gcra.check("retry-user")).retryAfterMs).toBe(1000);
+    });
+
+    it("peeks without counting", async () => {
+      const limiter = new RateLimiter({ limit: 1, windowInSeconds: 60 });
+
+      expect((await limiter.peek("peek-user")).allowed).toBe(true);
+      expect((await limiter.peek("peek-user")).allowed).toBe(true);
+      await limiter.check("peek-user");
+      const peeked = await limiter.peek("peek-user");
+      expect(peeked.allowed).toBe(false);
+      expect(peeked.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it("matches isAllowed", async () => {
+      const limiter = new RateLimiter({ limit: 1, windowInSeconds: 60 });
+
+      expect((await limiter.check("wrapped-user")).allowed).toBe(true);
+      expect(await limiter.isAllowed("wrapped-user")).toBe(false);
+    });
+
+    it("allows in dry run mode while reporting the real numbers", async () => {
+      const limiter = new RateLimiter({
+        limit: 1,
+        windowInSeconds: 60,
+        dryRun: true,
+      });
+
+      await limiter.check("dry-user");
+      const decision = await limiter.check("dry-user");
+      expect(decision.allowed).toBe(true);
+      expect(decision.remaining).toBe(0);
+    });
+  });
+
   describe("DX Features", () => {
     it("supports dryRun mode", async () => {
       const limiter = new RateLimiter({
@@ -162,6 +889,281 @@ describe("Rate Limiter Core", () => {
   });
 });
 
+// 🧪 Pluggable Stores
+describe("Rate Limit Stores", () => {
+  describe("MemoryStore", () => {
+    it("supports get/set/delete with TTL", async () => {
+      let now = 1000;
+      const store = new MemoryStore({}, () => now);
+
+      await store.set("a", { count: 1 }, 500);
+      expect(await store.get("a")).toEqual({ count: 1 });
+
+      now += 500;
+      expect(await store.get("a")).toBeUndefined();
+
+      await store.set("b", 1);
+      await store.delete("b");
+      expect(await store.get("b")).toBeUndefined();
+      store.stopGC();
+    });
+
+    it("increments counters and keeps the original TTL", async () => {
+      let now = 0;
+      const store = new MemoryStore({}, () => now);
+
+      expect(await store.increment("hits", 1, 1000)).toBe(1);
+      now = 900;
+      expect(await store.increment("hits", 2, 1000)).toBe(3);
+      now = 1000;
+      expect(await store.get("hits")).toBeUndefined();
+      store.stopGC();
+    });
+
+    it("only swaps values that match the expected value", async () => {
+      const store = new MemoryStore();
+
+      expect(await store.compareAndSet("k", undefined, { n: 1 })).toBe(true);
+      expect(await store.compareAndSet("k", undefined, { n: 2 })).toBe(false);
+      expect(await store.compareAndSet("k", { n: 1 }, { n: 2 })).toBe(true);
+      expect(await store.get("k")).toEqual({ n: 2 });
+      store.stopGC();
+    });
+
+    it("evicts least recently used keys when full", async () => {
+      const store = new MemoryStore({ maxStoreSize: 2 });
+
+      await store.set("a", 1);
+      await store.set("b", 2);
+      await store.get("a");
+      await store.set("c", 3);
+
+      expect(store.size).toBe(2);
+      expect(await store.get("a")).toBe(1);
+      expect(await store.get("b")).toBeUndefined();
+      store.stopGC();
+    });
+  });
+
+  it("runs every strategy against a custom store", async () => {
+    for (const strategy of ["fixed", "sliding", "tokenBucket"] as const) {
+      const store = new MemoryStore();
+      const setSpy = vi.spyOn(store, "compareAndSet");
+      const limiter = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+        store,
+      });
+
+      expect(await limiter.isAllowed("custom-store-user")).toBe(true);
+      expect(await limiter.isAllowed("custom-store-user")).toBe(true);
+      expect(await limiter.isAllowed("custom-store-user")).toBe(false);
+      expect(setSpy).toHaveBeenCalled();
+      expect(store.size).toBe(1);
+      store.stopGC();
+    }
+  });
+
+  it("reports state from the store for fixed windows", async () => {
+    const limiter = new RateLimiter({
+      limit: 5,
+      windowInSeconds: 60,
+      strategy: "fixed",
+      store: new MemoryStore(),
+    });
+
+    await limiter.isAllowed("state-user");
+    await limiter.isAllowed("state-user");
+
+    const state = await limiter.getState("state-user");
+    expect(state.remaining).toBe(3);
+    expect(state.limit).toBe(5);
+    expect(state.resetAt).toBeGreaterThan(Date.now());
+  });
+
+  it("keeps limiters with the same strategy isolated", async () => {
+    const first = new RateLimiter({ limit: 1, windowInSeconds: 60 });
+    const second = new RateLimiter({ limit: 1, windowInSeconds: 60 });
+
+    expect(await first.isAllowed("isolated-user")).toBe(true);
+    expect(await first.isAllowed("isolated-user")).toBe(false);
+    expect(await second.isAllowed("isolated-user")).toBe(true);
+
+    await FixedWindowStrategy.resetAll();
+    expect(await first.isAllowed("isolated-user")).toBe(false);
+  });
+
+  it("shares counters between limiters using the same sharedStore", async () => {
+    for (const strategy of ["fixed", "sliding", "tokenBucket"] as const) {
+      const name = `shared-${strategy}`;
+      const first = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+        sharedStore: name,
+      });
+      const second = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+        sharedStore: name,
+      });
+      const other = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        strategy,
+      });
+
+      expect(await first.isAllowed("shared-user")).toBe(true);
+      expect(await second.isAllowed("shared-user")).toBe(true);
+      expect(await first.isAllowed("shared-user")).toBe(false);
+      expect(await other.isAllowed("shared-user")).toBe(true);
+      expect(MemoryStore.shared(name)).toBe(MemoryStore.shared(name));
+    }
+  });
+
+  it("tracks metrics per fixed window limiter", async () => {
+    const first = new FixedWindowStrategy({
+      limit: 1,
+      windowInSeconds: 60,
+      limiterConfig: { enablePerKeyStats: true },
+    });
+    const second = new FixedWindowStrategy({ limit: 1, windowInSeconds: 60 });
+
+    await first.isAllowed("metrics-user");
+    await first.isAllowed("metrics-user");
+    await second.isAllowed("metrics-user");
+
+    expect(first.getMetrics()).toEqual({ hits: 1, rejections: 1 });
+    expect(first.getMetrics("metrics-user")).toEqual({
+      hits: 1,
+      rejections: 1,
+    });
+    expect(second.getMetrics()).toEqual({ hits: 1, rejections: 0 });
+    first.stopGC();
+    second.stopGC();
+  });
+
+  it("rejects stores missing required methods", () => {
+    expect(
+      () => new RateLimiter({ store: { get: async () => undefined } as any })
+    ).toThrow(/store must implement/);
+  });
+});
+
+// 🧪 Snapshots
+describe("Snapshot and Restore", () => {
+  it("restores counters for every strategy", async () => {
+    for (const strategy of ["fixed", "sliding", "tokenBucket"] as const) {
+      const config = { limit: 2, windowInSeconds: 60, strategy };
+      const limiter = new RateLimiter(config);
+      await limiter.isAllowed("snap-user");
+      await limiter.isAllowed("snap-user");
+
+      const snapshot = JSON.parse(JSON.stringify(await limiter.snapshot()));
+      expect(snapshot.version).toBe(1);
+      expect(snapshot.strategy).toBe(strategy);
+      expect(snapshot.entries).toHaveLength(1);
+      expect(snapshot.entries[0].key).toBe("snap-user");
+
+      const restored = await RateLimiter.restore(config, snapshot);
+      expect(await restored.isAllowed("snap-user")).toBe(false);
+      expect(await restored.isAllowed("other-user")).toBe(true);
+    }
+  });
+
+  it("discards entries that expired while the process was down", async () => {
+    const config = { limit: 1, windowInSeconds: 60 };
+    const limiter = new RateLimiter(config);
+    await limiter.isAllowed("expired-user");
+    await limiter.isAllowed("live-user");
+
+    const snapshot = await limiter.snapshot();
+    const expired = snapshot.entries.find((e) => e.key === "expired-user")!;
+    expired.expiresAt = Date.now() - 1;
+    expired.value = { ...expired.value, resetAt: Date.now() - 1 };
+
+    const restored = new RateLimiter(config);
+    expect(await restored.loadSnapshot(snapshot)).toBe(1);
+    expect(await restored.isAllowed("expired-user")).toBe(true);
+    expect(await restored.isAllowed("live-user")).toBe(false);
+  });
+
+  it("rejects snapshots from another strategy or version", async () => {
+    const snapshot = await new RateLimiter({ strategy: "sliding" }).snapshot();
+    const limiter = new RateLimiter({ strategy: "fixed" });
+
+    await expect(limiter.loadSnapshot(snapshot)).rejects.toThrow(/strategy/);
+    await expect(
+      limiter.loadSnapshot({ ...snapshot, strategy: "fixed", version: 99 })
+    ).rejects.toThrow(/version/);
+  });
+
+  it("saves on close and loads on startup with persistence", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "zenin-")), "state.json");
+    const config = { limit: 1, windowInSeconds: 60, persistence: { path } };
+
+    const before = new RateLimiter(config);
+    expect(await before.isAllowed("persisted-user")).toBe(true);
+    await before.close();
+    expect(JSON.parse(readFileSync(path, "utf8")).entries).toHaveLength(1);
+
+    const after = new RateLimiter(config);
+    expect(await after.isAllowed("persisted-user")).toBe(false);
+    await after.close();
+  });
+
+  it("saves a snapshot when a shutdown signal arrives", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "zenin-")), "state.json");
+    const keepAlive = () => {};
+    process.on("SIGUSR2", keepAlive);
+    const limiter = new RateLimiter({
+      limit: 5,
+      windowInSeconds: 60,
+      persistence: { path, signals: ["SIGUSR2"] },
+    });
+    await limiter.isAllowed("signal-user");
+
+    process.emit("SIGUSR2", "SIGUSR2");
+    await vi.waitFor(() =>
+      expect(JSON.parse(readFileSync(path, "utf8")).entries).toHaveLength(1)
+    );
+    process.removeListener("SIGUSR2", keepAlive);
+    limiter.stopGC();
+  });
+
+  it("saves every persisted limiter before the signal goes on", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "zenin-"));
+    const paths = [1, 2, 3].map((i) => join(dir, `state-${i}.json`));
+    const keepAlive = () => {};
+    process.on("SIGUSR2", keepAlive);
+    const limiters = paths.map(
+      (path) =>
+        new RateLimiter({
+          limit: 5,
+          windowInSeconds: 60,
+          persistence: { path, signals: ["SIGUSR2"] },
+        })
+    );
+    // One listener handles the signal for all of them
+    expect(process.listenerCount("SIGUSR2")).toBe(2);
+    for (const limiter of limiters) await limiter.isAllowed("signal-user");
+
+    process.emit("SIGUSR2", "SIGUSR2");
+    await vi.waitFor(() => expect(process.listenerCount("SIGUSR2")).toBe(1));
+    // The listener goes away only once every snapshot has been written
+    for (const path of paths) {
+      expect(JSON.parse(readFileSync(path, "utf8")).entries).toHaveLength(1);
+    }
+    expect(readdirSync(dir).filter((file) => file.endsWith(".tmp"))).toEqual(
+      []
+    );
+    process.removeListener("SIGUSR2", keepAlive);
+    limiters.forEach((limiter) => limiter.stopGC());
+  });
+});
+
 // 🧪 Express Middleware
 describe("Express Rate Limiter", () => {
   let app: express.Express;
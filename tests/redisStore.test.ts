@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import RedisMock from "ioredis-mock";
+import { RateLimiter } from "../src/core/RateLimiter";
+import { RedisStore } from "../src/stores/RedisStore";
+import { decideTokenBucket } from "../src/strategies/tokenBucket";
+
+// 🧪 Redis Store (in-process fake Redis with Lua support)
+describe("Redis Store", () => {
+  let client: any;
+  let store: RedisStore;
+
+  beforeEach(async () => {
+    client = new RedisMock();
+    await client.flushall();
+    store = new RedisStore({ client });
+  });
+
+  describe("Generic operations", () => {
+    it("round-trips JSON values with a prefix", async () => {
+      await store.set("a", { count: 2, resetAt: 123 }, 60000);
+      expect(await store.get("a")).toEqual({ count: 2, resetAt: 123 });
+      expect(await client.get("zenin:a")).toBe('{"count":2,"resetAt":123}');
+      expect(await client.pttl("zenin:a")).toBeGreaterThan(0);
+
+      await store.delete("a");
+      expect(await store.get("a")).toBeUndefined();
+    });
+
+    it("increments counters", async () => {
+      expect(await store.increment("hits", 1, 60000)).toBe(1);
+      expect(await store.increment("hits", 2)).toBe(3);
+    });
+
+    it("compares and sets against the stored value", async () => {
+      expect(await store.compareAndSet("k", undefined, { n: 1 })).toBe(true);
+      expect(await store.compareAndSet("k", undefined, { n: 2 })).toBe(false);
+
+      const current = await store.get("k");
+      expect(await store.compareAndSet("k", current, { n: 2 })).toBe(true);
+      expect(await store.compareAndSet("k", current, { n: 3 })).toBe(false);
+      expect(await store.get("k")).toEqual({ n: 2 });
+    });
+
+    it("clears only prefixed keys", async () => {
+      await client.set("other", "1");
+      await store.set("a", 1);
+      await store.set("b", 2);
+
+      await store.clear();
+
+      expect(await store.get("a")).toBeUndefined();
+      expect(await client.get("other")).toBe("1");
+    });
+
+    it("clears keys across several SCAN batches", async () => {
+      for (let i = 0; i < 250; i++) await store.set(`k${i}`, i);
+
+      await store.clear();
+
+      expect(await client.keys("zenin:*")).toEqual([]);
+    });
+  });
+
+  describe("Atomic strategies", () => {
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+    ] as const) {
+      it(`enforces ${strategy} limits`, async () => {
+        const limiter = new RateLimiter({
+          limit: 3,
+          windowInSeconds: 60,
+          strategy,
+          store,
+        });
+
+        const results: boolean[] = [];
+        for (let i = 0; i < 5; i++) {
+          results.push(await limiter.isAllowed("redis-user"));
+        }
+
+        expect(results).toEqual([true, true, true, false, false]);
+        const state = await limiter.getState("redis-user");
+        expect(state.remaining).toBe(0);
+        expect(state.limit).toBe(3);
+      });
+    }
+
+    for (const strategy of [
+      "fixed",
+      "sliding",
+      "tokenBucket",
+      "slidingCounter",
+      "gcra",
+    ] as const) {
+      it(`consumes weighted costs atomically with ${strategy}`, async () => {
+        const limiter = new RateLimiter({
+          limit: 5,
+          windowInSeconds: 60,
+          strategy,
+          store,
+        });
+
+        expect(await limiter.consume("bulk-user", 3)).toBe(true);
+        expect(await limiter.consume("bulk-user", 3)).toBe(false);
+        expect(await limiter.consume("bulk-user", 2)).toBe(true);
+        expect(await limiter.consume("bulk-user", 1)).toBe(false);
+      });
+    }
+
+    it("shares limits between limiters on the same Redis", async () => {
+      // Two limiters stand in for two processes behind a load balancer
+      const first = new RateLimiter({ limit: 2, windowInSeconds: 60, store });
+      const second = new RateLimiter({
+        limit: 2,
+        windowInSeconds: 60,
+        store: new RedisStore({ client }),
+      });
+
+      expect(await first.isAllowed("shared")).toBe(true);
+      expect(await second.isAllowed("shared")).toBe(true);
+      expect(await first.isAllowed("shared")).toBe(false);
+      expect(await second.isAllowed("shared")).toBe(false);
+    });
+
+    it("reads the Redis server's clock by default", async () => {
+      // A caller whose clock is far behind does not shift the window
+      const before = Date.now();
+      const result = await store.consumeFixedWindow("skewed", 5, 1000, 0);
+      expect(result.resetAt).toBeGreaterThanOrEqual(before + 1000);
+      expect(() => new RedisStore({ client, clock: "local" as any })).toThrow(
+        /Invalid clock/
+      );
+    });
+
+    describe("With the client's clock", () => {
+      beforeEach(() => {
+        store = new RedisStore({ client, clock: "client" });
+      });
+
+      it("writes the same value shapes as the in-memory strategies", async () => {
+        const now = 1_000_000;
+        await store.consumeFixedWindow("fixed:k", 5, 1000, now);
+        await store.consumeSlidingWindow("sliding:k", 5, 1000, now);
+        await store.consumeTokenBucket("tokenBucket:k", 4, 1000, now);
+        await store.consumeSlidingCounter("slidingCounter:k", 4, 1000, now);
+        await store.consumeGcra("gcra:k", 250, 4, now);
+
+        expect(await store.get("fixed:k")).toEqual({
+          count: 1,
+          resetAt: now + 1000,
+        });
+        expect(await store.get("sliding:k")).toEqual({ timestamps: [now] });
+        expect(await store.get("tokenBucket:k")).toEqual({
+          tokens: 3,
+          lastRefill: now,
+        });
+        expect(await store.get("slidingCounter:k")).toEqual({
+          windowStart: now,
+          current: 1,
+          previous: 0,
+        });
+        expect(await store.get("gcra:k")).toEqual({ tat: now + 250 });
+      });
+
+      it("does not refill a token bucket twice after the clock steps back", async () => {
+        const now = 1_000_000;
+        for (let i = 0; i < 3; i++) {
+          await store.consumeTokenBucket("tb", 4, 1000, now);
+        }
+        // The clock steps back 500ms: no refill, and the refill time stays
+        expect(
+          (await store.consumeTokenBucket("tb", 4, 1000, now - 500)).allowed
+        ).toBe(true);
+        expect(await store.get("tb")).toEqual({ tokens: 0, lastRefill: now });
+        // Once it recovers, only the 250ms since `now` refill (one token)
+        expect(
+          (await store.consumeTokenBucket("tb", 4, 1000, now + 250)).allowed
+        ).toBe(true);
+        expect(
+          (await store.consumeTokenBucket("tb", 4, 1000, now + 250)).allowed
+        ).toBe(false);
+
+        // The in-memory strategies decide the same way
+        const behind = decideTokenBucket(
+          { tokens: 1, lastRefill: now },
+          4,
+          1000,
+          now - 500
+        );
+        expect(behind.value).toEqual({ tokens: 0, lastRefill: now });
+        expect(
+          decideTokenBucket(behind.value, 4, 1000, now + 250).result.remaining
+        ).toBe(0);
+      });
+
+      it("returns the exact GCRA retry-after", async () => {
+        const now = 1_000_000;
+        await store.consumeGcra("g", 1000, 2, now);
+        await store.consumeGcra("g", 1000, 2, now);
+        expect(await store.consumeGcra("g", 1000, 2, now + 300)).toEqual({
+          allowed: false,
+          remaining: 0,
+          resetAt: now + 2000,
+          retryAfterMs: 700,
+        });
+        expect(await store.consumeGcra("g", 1000, 2, now + 1000)).toEqual({
+          allowed: true,
+          remaining: 0,
+          resetAt: now + 3000,
+          retryAfterMs: 0,
+        });
+      });
+
+      it("weights the previous sliding counter window", async () => {
+        const now = 1_000_000;
+        for (let i = 0; i < 4; i++) {
+          await store.consumeSlidingCounter("c", 4, 1000, now);
+        }
+        expect(await store.consumeSlidingCounter("c", 4, 1000, now)).toEqual({
+          allowed: false,
+          remaining: 0,
+          resetAt: now + 1250,
+        });
+        expect(
+          await store.consumeSlidingCounter("c", 4, 1000, now + 1500)
+        ).toEqual({ allowed: true, remaining: 1, resetAt: now + 1750 });
+      });
+
+      it("refills token buckets over time", async () => {
+        const now = 1_000_000;
+        expect(
+          (await store.consumeTokenBucket("b", 2, 1000, now)).allowed
+        ).toBe(true);
+        expect(
+          (await store.consumeTokenBucket("b", 2, 1000, now)).allowed
+        ).toBe(true);
+        expect(
+          (await store.consumeTokenBucket("b", 2, 1000, now)).allowed
+        ).toBe(false);
+        const later = await store.consumeTokenBucket("b", 2, 1000, now + 500);
+        expect(later.allowed).toBe(true);
+        expect(later.remaining).toBe(0);
+      });
+
+      it("starts a new fixed window after expiry", async () => {
+        const now = 1_000_000;
+        await store.consumeFixedWindow("w", 1, 1000, now);
+        expect(
+          (await store.consumeFixedWindow("w", 1, 1000, now)).allowed
+        ).toBe(false);
+        const next = await store.consumeFixedWindow("w", 1, 1000, now + 1000);
+        expect(next).toEqual({
+          allowed: true,
+          remaining: 0,
+          resetAt: now + 2000,
+        });
+      });
+    });
+  });
+
+  it("supports node-redis style clients", async () => {
+    const nodeRedisClient = {
+      isOpen: true,
+      eval: (
+        script: string,
+        options: { keys: string[]; arguments: string[] }
+      ) =>
+        client.eval(
+          script,
+          options.keys.length,
+          ...options.keys,
+          ...options.arguments
+        ),
+    };
+    const limiter = new RateLimiter({
+      limit: 1,
+      windowInSeconds: 60,
+      store: new RedisStore({ client: nodeRedisClient }),
+    });
+
+    expect(await limiter.isAllowed("node-redis")).toBe(true);
+    expect(await limiter.isAllowed("node-redis")).toBe(false);
+  });
+
+  it("requires a client with eval", () => {
+    expect(() => new RedisStore({ client: {} as any })).toThrow(/eval/);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import express from "express";
+import Fastify from "fastify";
+import { Throttler } from "../src/core/Throttler";
+import { RateLimiter } from "../src/core/RateLimiter";
+import { expressLimiter } from "../src/middleware/express";
+import { fastifyLimiter } from "../src/middleware/fastify";
+
+// 🧪 Throttle Mode
+describe("Throttler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("releases queued requests in order at the drain rate", async () => {
+    vi.useFakeTimers();
+    const throttler = new Throttler();
+    const released: number[] = [];
+    const start = Date.now();
+
+    const waits = [0, 1, 2].map((i) =>
+      throttler.acquire("key", 100).then((ok) => {
+        released.push(i);
+        expect(ok).toBe(true);
+        return Date.now() - start;
+      })
+    );
+    expect(throttler.getQueueLength("key")).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(await Promise.all(waits)).toEqual([0, 100, 200]);
+    expect(released).toEqual([0, 1, 2]);
+    expect(throttler.getQueueLength("key")).toBe(0);
+  });
+
+  it("rejects when the queue is full", async () => {
+    vi.useFakeTimers();
+    const throttler = new Throttler({ maxQueueLength: 1 });
+
+    expect(await throttler.acquire("key", 100)).toBe(true);
+    const queued = throttler.acquire("key", 100);
+    expect(await throttler.acquire("key", 100)).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await queued).toBe(true);
+  });
+
+  it("rejects when the wait would exceed the deadline", async () => {
+    vi.useFakeTimers();
+    const throttler = new Throttler({ maxWaitMs: 150 });
+
+    expect(await throttler.acquire("key", 100)).toBe(true);
+    const queued = throttler.acquire("key", 100); // Waits 100ms
+    expect(await throttler.acquire("key", 100)).toBe(false); // Would wait 200ms
+    expect(await throttler.acquire("other", 100)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await queued).toBe(true);
+  });
+
+  it("drops aborted waiters and moves the queue up", async () => {
+    vi.useFakeTimers();
+    const throttler = new Throttler({ maxQueueLength: 1 });
+    const controller = new AbortController();
+
+    await throttler.acquire("key", 100);
+    const abandoned = throttler.acquire("key", 100, controller.signal);
+    controller.abort();
+    expect(await abandoned).toBe(false);
+
+    const next = throttler.acquire("key", 100);
+    expect(throttler.getQueueLength("key")).toBe(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await next).toBe(true);
+  });
+
+  it("turns queued requests away on close", async () => {
+    const limiter = new RateLimiter({
+      limit: 1,
+      windowInSeconds: 60,
+      throttle: { maxWaitMs: 120000 },
+    });
+    expect(await limiter.isAllowed("closing-user")).toBe(true);
+    const queued = limiter.isAllowed("closing-user");
+    await vi.waitFor(() =>
+      expect(limiter.getQueueLength("closing-user")).toBe(1)
+    );
+
+    await limiter.close();
+    expect(await queued).toBe(false);
+  });
+
+  it("rejects invalid throttle settings", () => {
+    expect(() => new RateLimiter({ throttle: { maxQueueLength: -1 } })).toThrow(
+      /throttle.maxQueueLength/
+    );
+  });
+
+  describe("Express", () => {
+    it("delays excess requests instead of rejecting them", async () => {
+      const app = express();
+      app.use(
+        expressLimiter({
+          limit: 20,
+          windowInSeconds: 1, // One request every 50ms
+          throttle: { maxQueueLength: 2 },
+        })
+      );
+      app.get("/", (_, res) => res.send("OK"));
+
+      const start = Date.now();
+      const responses = await Promise.all(
+        [0, 1, 2, 3].map(() => request(app).get("/"))
+      );
+
+      const statuses = responses.map((res) => res.statusCode).sort();
+      expect(statuses).toEqual([200, 200, 200, 429]);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it("frees the queue slot when the client disconnects", async () => {
+      const app = express();
+      app.use(
+        expressLimiter({
+          limit: 5,
+          windowInSeconds: 1, // One request every 200ms
+          throttle: { maxQueueLength: 1 },
+        })
+      );
+      app.get("/", (_, res) => res.send("OK"));
+      const server = app.listen(0);
+      const { port } = server.address() as AddressInfo;
+      const get = () =>
+        new Promise<number>((resolve, reject) => {
+          http
+            .get({ port, path: "/" }, (res) => {
+              res.resume();
+              resolve(res.statusCode!);
+            })
+            .on("error", reject);
+        });
+
+      try {
+        expect(await get()).toBe(200);
+        // Queue a request, then hang up before it is released
+        const abandoned = http.get({ port, path: "/" });
+        abandoned.on("error", () => {});
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        abandoned.destroy();
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        // The slot is free again, so this one queues instead of failing
+        expect(await get()).toBe(200);
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe("Fastify", () => {
+    it("delays excess requests and rejects overflow", async () => {
+      const fastify = Fastify();
+      fastify.addHook(
+        "onRequest",
+        fastifyLimiter({
+          limit: 20,
+          windowInSeconds: 1,
+          throttle: { maxQueueLength: 1 },
+        })
+      );
+      fastify.get("/", async () => "OK");
+
+      const responses = await Promise.all(
+        [0, 1, 2].map(() => fastify.inject({ method: "GET", url: "/" }))
+      );
+
+      const statuses = responses.map((res) => res.statusCode).sort();
+      expect(statuses).toEqual([200, 200, 429]);
+      await fastify.close();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { Server as SocketIoServer } from "socket.io";
+import {
+  io as connectSocketIo,
+  Socket as ClientSocket,
+} from "socket.io-client";
+import { wsLimiter, socketIoLimiter } from "../src/middleware/websocket";
+
+const cleanups: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  while (cleanups.length) await cleanups.pop()!();
+});
+
+async function startWsServer(options: Parameters<typeof wsLimiter>[1]) {
+  const wss = new WebSocketServer({ port: 0 });
+  await new Promise((resolve) => wss.once("listening", resolve));
+  const limiter = wsLimiter(wss, options);
+  const received: string[] = [];
+  wss.on("connection", (socket) => {
+    socket.on("message", (data) => received.push(data.toString()));
+  });
+  cleanups.push(
+    () => new Promise<void>((resolve) => wss.close(() => resolve())),
+    () => limiter.close()
+  );
+  const url = `ws://localhost:${(wss.address() as AddressInfo).port}`;
+  return { wss, limiter, received, url };
+}
+
+async function connectWs(url: string, headers?: Record<string, string>) {
+  const client = new WebSocket(url, { headers });
+  await new Promise((resolve) => client.once("open", resolve));
+  cleanups.push(() => client.terminate());
+  const frames: string[] = [];
+  client.on("message", (data) => frames.push(data.toString()));
+  return { client, frames };
+}
+
+/** Sends a ping and waits for its pong, so earlier messages were handled. */
+async function settle(client: WebSocket) {
+  client.ping();
+  await new Promise((resolve) => client.once("pong", resolve));
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+// 🧪 WebSocket
+describe("ws limiter", () => {
+  it("drops messages over the limit per connection, in order", async () => {
+    const { received, url } = await startWsServer({ limit: 3 });
+    const { client } = await connectWs(url);
+
+    for (let i = 1; i <= 5; i++) client.send(`m${i}`);
+    await settle(client);
+    expect(received).toEqual(["m1", "m2", "m3"]);
+
+    // Each connection has its own budget
+    const other = await connectWs(url);
+    other.client.send("o1");
+    await settle(other.client);
+    expect(received).toEqual(["m1", "m2", "m3", "o1"]);
+  });
+
+  it("sends an error frame", async () => {
+    const { received, url } = await startWsServer({
+      limit: 1,
+      action: "error",
+    });
+    const { client, frames } = await connectWs(url);
+
+    client.send("a");
+    client.send("b");
+    await settle(client);
+    expect(received).toEqual(["a"]);
+    expect(frames.map((frame) => JSON.parse(frame))).toEqual([
+      { error: "Too Many Requests", code: "RATE_LIMITED", retryAfter: 60 },
+    ]);
+  });
+
+  it("closes the connection with 1008", async () => {
+    const { received, url } = await startWsServer({
+      limit: 1,
+      action: "close",
+      closeReason: "Slow down",
+    });
+    const { client } = await connectWs(url);
+    const closed = new Promise<[number, string]>((resolve) =>
+      client.once("close", (code, reason) => resolve([code, reason.toString()]))
+    );
+
+    client.send("a");
+    client.send("b");
+    client.send("c");
+    expect(await closed).toEqual([1008, "Slow down"]);
+    expect(received).toEqual(["a"]);
+  });
+
+  it("keys by user across connections", async () => {
+    const { received, url } = await startWsServer({
+      limit: 2,
+      keyBy: "user",
+      getUser: ({ req }) => req?.headers["x-user-id"] as string | undefined,
+    });
+    const first = await connectWs(url, { "x-user-id": "alice" });
+    const second = await connectWs(url, { "x-user-id": "alice" });
+    const bob = await connectWs(url, { "x-user-id": "bob" });
+
+    first.client.send("a1");
+    await settle(first.client);
+    second.client.send("a2");
+    second.client.send("a3");
+    await settle(second.client);
+    bob.client.send("b1");
+    await settle(bob.client);
+    expect(received).toEqual(["a1", "a2", "b1"]);
+  });
+
+  it("keys by event name with weighted costs", async () => {
+    const { received, url } = await startWsServer({
+      limit: 2,
+      keyBy: "event",
+      cost: ({ event }) => (event === "upload" ? 2 : 1),
+    });
+    const { client } = await connectWs(url);
+    const send = (type: string) => client.send(JSON.stringify({ type }));
+
+    send("chat");
+    send("chat");
+    send("chat");
+    send("upload");
+    send("upload");
+    await settle(client);
+    expect(received.map((m) => JSON.parse(m).type)).toEqual([
+      "chat",
+      "chat",
+      "upload",
+    ]);
+  });
+
+  it("requires getUser when keyed by user", () => {
+    const wss = new WebSocketServer({ noServer: true });
+    expect(() => wsLimiter(wss, { keyBy: "user" })).toThrow(/getUser/);
+  });
+});
+
+describe("socket.io limiter", () => {
+  async function startSocketIo(options: Parameters<typeof socketIoLimiter>[0]) {
+    const httpServer: HttpServer = createServer();
+    const io = new SocketIoServer(httpServer);
+    const limiter = socketIoLimiter(options);
+    io.use(limiter);
+    const received: string[] = [];
+    io.on("connection", (socket) => {
+      // onAny listeners run before middleware, so listen per event
+      for (const event of ["chat", "typing"]) {
+        socket.on(event, (payload) => received.push(`${event}:${payload}`));
+      }
+      socket.on("ping", (ack) => ack());
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    cleanups.push(
+      () => new Promise<void>((resolve) => io.close(() => resolve())),
+      () => limiter.close()
+    );
+    const port = (httpServer.address() as AddressInfo).port;
+    return { received, url: `http://localhost:${port}` };
+  }
+
+  async function connect(url: string, auth?: Record<string, string>) {
+    const client = connectSocketIo(url, {
+      auth,
+      transports: ["websocket"],
+      forceNew: true,
+    });
+    await new Promise((resolve) => client.once("connect", resolve));
+    cleanups.push(() => {
+      client.disconnect();
+    });
+    return client;
+  }
+
+  /** Waits until an ack shows the server handled earlier events. */
+  async function settle(client: ClientSocket) {
+    await client.timeout(1000).emitWithAck("ping");
+  }
+
+  it("limits events per connection and event name", async () => {
+    const { received, url } = await startSocketIo({
+      limit: 2,
+      keyBy: "event",
+      action: "error",
+    });
+    const client = await connect(url);
+    const errors: any[] = [];
+    client.on("rate_limited", (payload) => errors.push(payload));
+
+    client.emit("chat", 1);
+    client.emit("chat", 2);
+    client.emit("chat", 3);
+    client.emit("typing", 1);
+    await settle(client);
+    expect(received).toEqual(["chat:1", "chat:2", "typing:1"]);
+    expect(errors).toEqual([
+      { error: "Too Many Requests", code: "RATE_LIMITED", retryAfter: 60 },
+    ]);
+  });
+
+  it("keys by user and disconnects on close", async () => {
+    const { received, url } = await startSocketIo({
+      limit: 1,
+      keyBy: "user",
+      getUser: ({ socket }) => socket.handshake.auth.userId,
+      action: "close",
+    });
+    const first = await connect(url, { userId: "alice" });
+    const second = await connect(url, { userId: "alice" });
+    const disconnected = new Promise((resolve) =>
+      second.once("disconnect", resolve)
+    );
+
+    first.emit("chat", "a1");
+    await vi.waitFor(() => expect(received).toEqual(["chat:a1"]));
+    second.emit("chat", "a2");
+    await disconnected;
+    expect(received).toEqual(["chat:a1"]);
+  });
+});
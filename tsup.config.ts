@@ -1,7 +1,18 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // Framework integrations get their own entry points, so the root never
+  // requires an optional peer
+  entry: {
+    index: "src/index.ts",
+    nest: "src/middleware/nest.ts",
+    koa: "src/middleware/koa.ts",
+    graphql: "src/middleware/graphql.ts",
+    websocket: "src/middleware/websocket.ts",
+    // Web-standard adapters; these entries load no Node.js built-ins
+    fetch: "src/middleware/fetch.ts",
+    hono: "src/middleware/hono.ts",
+  },
   dts: true,
   format: ["esm", "cjs"],
   outDir: "dist",
@@ -11,7 +22,7 @@ export default defineConfig({
   // Additional optimizations
   minify: false, // Keep readable for debugging
   sourcemap: true, // Help with debugging
-  splitting: false, // Single bundle for better tree-shaking
+  splitting: true, // Entries share one copy of the core (and its classes)
   treeshake: true, // Remove unused code
   // Ensure proper module resolution
   noExternal: [],
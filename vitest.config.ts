@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Apollo Server loads graphql's CommonJS build; the tests must share it
+    alias: [{ find: /^graphql$/, replacement: "graphql/index.js" }],
+  },
+});